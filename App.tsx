@@ -1,21 +1,64 @@
-import React, { useState, useRef, useCallback, CSSProperties } from 'react';
-import { AppState, Tool } from './types';
-import { editImageWithText, blendImages, generateImage, expandImage } from './services/geminiService';
-import ImageEditor, { ImageEditorRef } from './components/ImageEditor';
+import React, { useState, useRef, useCallback, useEffect, CSSProperties } from 'react';
+import { AppState, Tool, EditableImage, EditHistory, HistoryStepKind, ProjectSummary, GenerationSettings, GenerationOutputFormat, PersonGenerationSetting, ProgressStage, Preset, PresetKind, PromptField, ImageTransform, RuntimeSettings, SubjectTarget, InsertLayer } from './types';
+import { editImageWithText, blendImages, generateImage, expandImage, getImageProvider, configureGemini, segmentSubject } from './services/imageProvider';
+import { DEFAULT_MODELS, GENERATION_ASPECT_RATIOS } from './services/geminiService';
+import ImageEditor, { ImageEditorRef, MaskMode, SelectionTool } from './components/ImageEditor';
 import ImageCropper from './components/ImageCropper';
 import Loader from './components/Loader';
-import { UploadIcon, SparklesIcon, BrushIcon, DownloadIcon, BackIcon, PhotoIcon, HomeIcon, ChevronDownIcon, ExpandIcon, ArrowUpLeftIcon, ArrowUpIcon, ArrowUpRightIcon, ArrowLeftIcon, ArrowRightIcon, ArrowDownLeftIcon, ArrowDownIcon, ArrowDownRightIcon, UndoIcon, CropIcon } from './components/icons/Icons';
-
-interface ImageTransform {
-  x: number;
-  y: number;
-  scale: number;
-  rotation: number; // z-axis
-  opacity: number;
-  perspective: number;
-  rotateX: number;
-  rotateY: number;
-}
+import HistoryTimeline from './components/HistoryTimeline';
+import ProjectList from './components/ProjectList';
+import BatchMode from './components/BatchMode';
+import PresetPicker from './components/PresetPicker';
+import SettingsPanel from './components/SettingsPanel';
+import ResultComparison from './components/ResultComparison';
+import ExportDialog from './components/ExportDialog';
+import AdjustmentsPanel from './components/AdjustmentsPanel';
+import { listProjects, getProject, saveProject, deleteProject, renameProject, duplicateProject, exportProject, importProject, createThumbnail } from './services/projectStore';
+import { loadLocalSetting, saveLocalSetting } from './utils/localSettings';
+import { NO_PADDING, EXPAND_ASPECT_RATIOS, expandedSize, paddingForTargetSize, paddingForAspectRatio, planExpandPasses } from './utils/expand';
+import type { EditMetadata } from './utils/export';
+import { addRecentPrompt, exportPresetPack, importPresetPack } from './utils/presets';
+import { compositeMaskedResult, compositeExpandResult } from './utils/composite';
+import { loadImage, hasPadding, fitWithin, resizeImage, toDataUrl, padImage, toUploadPayload, renderSegmentMask, pickSubjectSegments, getPixels, rasterToDataUrl, hasTransparency, applyAlphaMask, Padding } from './utils/image';
+import { insertTransformMatrix, buildInsertMask, DEFAULT_IMAGE_TRANSFORM } from './utils/raster';
+import { describeError, throwIfAborted, CancelledError } from './services/errors';
+import type { RequestOptions } from './services/imageProvider';
+import { UploadIcon, SparklesIcon, BrushIcon, DownloadIcon, BackIcon, PhotoIcon, HomeIcon, ChevronDownIcon, ExpandIcon, ArrowUpLeftIcon, ArrowUpIcon, ArrowUpRightIcon, ArrowLeftIcon, ArrowRightIcon, ArrowDownLeftIcon, ArrowDownIcon, ArrowDownRightIcon, UndoIcon, RedoIcon, CropIcon, EraserIcon, SettingsIcon, AdjustmentsIcon } from './components/icons/Icons';
+
+const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  aspectRatio: '1:1',
+  outputMimeType: 'image/png',
+  negativePrompt: '',
+  personGeneration: 'allow_adult',
+};
+
+const PROJECT_AUTOSAVE_DELAY_MS = 800;
+
+const MAX_UPLOAD_MB = 25;
+// Images are downscaled so their longest side fits this before being sent to
+// the model; results are scaled back up to the source resolution.
+const WORKING_RESOLUTION_OPTIONS = [1024, 1536, 2048, 3072];
+const DEFAULT_WORKING_RESOLUTION = 1536;
+
+const DEFAULT_RUNTIME_SETTINGS: RuntimeSettings = { apiKey: '', models: DEFAULT_MODELS };
+
+const EMPTY_RECENT_PROMPTS: Record<PromptField, string[]> = { magicFill: [], expand: [], generate: [] };
+
+// Shows transparent areas of cutout previews.
+const CHECKERBOARD_STYLE: CSSProperties = {
+  backgroundImage: 'repeating-conic-gradient(#475569 0% 25%, #334155 0% 50%)',
+  backgroundSize: '16px 16px',
+};
+
+const SELECTION_TOOLS: { tool: SelectionTool; label: string }[] = [
+  { tool: 'brush', label: 'Brush' },
+  { tool: 'rectangle', label: 'Rectangle' },
+  { tool: 'ellipse', label: 'Ellipse' },
+  { tool: 'lasso', label: 'Lasso' },
+  { tool: 'polygon', label: 'Polygon' },
+  { tool: 'wand', label: 'Magic Wand' },
+  { tool: 'subject', label: 'Subject (AI)' },
+];
 
 const getMainClasses = (currentAppState: AppState) => {
   switch (currentAppState) {
@@ -28,6 +71,8 @@ const getMainClasses = (currentAppState: AppState) => {
     case AppState.EDITING:
     case AppState.EXPANDING:
     case AppState.RESULT:
+    case AppState.BATCH:
+    case AppState.ADJUSTING:
       return 'flex justify-center';
     default: return '';
   }
@@ -35,41 +80,152 @@ const getMainClasses = (currentAppState: AppState) => {
 
 function App() {
   const [appState, setAppState] = useState<AppState>(AppState.HOME);
-  const [originalImage, setOriginalImage] = useState<{ url: string; file: File, width: number, height: number } | null>(null);
-  const [uncroppedOriginalImage, setUncroppedOriginalImage] = useState<{ url: string; file: File, width: number, height: number } | null>(null);
-  const [insertImage, setInsertImage] = useState<{ url: string; file: File } | null>(null);
-  const [resultData, setResultData] = useState<{ url: string; type: 'image' } | null>(null);
+  const [history, setHistory] = useState<EditHistory>({ entries: [], index: -1 });
+  const [project, setProject] = useState<{ id: string; name: string; createdAt: number } | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [insertLayers, setInsertLayers] = useState<InsertLayer[]>([]);
+  const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
+  // A background-removed version of a layer, previewed before it replaces the layer's image.
+  const [insertCutout, setInsertCutout] = useState<{ layerId: string; url: string } | null>(null);
+  const [isRemovingBackground, setIsRemovingBackground] = useState(false);
+  // `rawCandidates` holds the unprocessed model outputs when the candidates were
+  // composited back onto the original.
+  const [resultData, setResultData] = useState<{ url: string; type: 'image'; candidates: string[]; rawCandidates?: string[] } | null>(null);
+  const [showRawResult, setShowRawResult] = useState(false);
+  const [fillFeather, setFillFeather] = useState<number>(() => loadLocalSetting('fillFeather', 8));
+  // How far into the original an expand result fades in, in pixels.
+  const [expandSeam, setExpandSeam] = useState<number>(() => loadLocalSetting('expandSeam', 16));
+  const [maxWorkingResolution, setMaxWorkingResolution] = useState<number>(() => loadLocalSetting('maxWorkingResolution', DEFAULT_WORKING_RESOLUTION));
+  const [variationCount, setVariationCount] = useState(1);
   const [prompt, setPrompt] = useState<string>('');
   const [generationPrompt, setGenerationPrompt] = useState('');
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(() => loadLocalSetting('generationSettings', DEFAULT_GENERATION_SETTINGS));
+  const [presets, setPresets] = useState<Preset[]>(() => loadLocalSetting<Preset[]>('presets', []));
+  const [recentPrompts, setRecentPrompts] = useState<Record<PromptField, string[]>>(() => loadLocalSetting('recentPrompts', EMPTY_RECENT_PROMPTS));
+  const [runtimeSettings, setRuntimeSettings] = useState<RuntimeSettings>(() => {
+    const stored = loadLocalSetting('runtimeSettings', DEFAULT_RUNTIME_SETTINGS);
+    const settings = { ...stored, models: { ...DEFAULT_MODELS, ...stored.models } };
+    configureGemini(settings);
+    return settings;
+  });
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSelectionDone, setIsSelectionDone] = useState(false);
   const [finalSelection, setFinalSelection] = useState<string | null>(null);
   const [brushSize, setBrushSize] = useState(30);
+  const [maskMode, setMaskMode] = useState<MaskMode>('paint');
+  const [selectionTool, setSelectionTool] = useState<SelectionTool>('brush');
+  const [wandTolerance, setWandTolerance] = useState(32);
+  const [subjectPhrase, setSubjectPhrase] = useState('');
+  const [isSelectingSubject, setIsSelectingSubject] = useState(false);
+  const [maskAdjustAmount, setMaskAdjustAmount] = useState(8);
+  const [maskHistoryState, setMaskHistoryState] = useState({ canUndo: false, canRedo: false });
   const [loadingMessage, setLoadingMessage] = useState('');
+  const [progress, setProgress] = useState<{ stage?: ProgressStage; detail?: string; startedAt: number; returnState: AppState }>({ startedAt: 0, returnState: AppState.HOME });
   const [systemContext, setSystemContext] = useState('');
   const [tool, setTool] = useState<Tool | null>(null);
 
   const [isPlacingImage, setIsPlacingImage] = useState(false);
-  const [insertImageTransform, setInsertImageTransform] = useState<ImageTransform>({
-    x: 50, y: 50, scale: 50, rotation: 0, opacity: 100,
-    perspective: 1000, rotateX: 0, rotateY: 0,
-  });
   const [isDragging, setIsDragging] = useState(false);
   
   // State for button-based expand
-  const MAX_EXPANSION_CLICKS = 6;
   const [expansionStepSize, setExpansionStepSize] = useState(128);
-  const [expandSteps, setExpandSteps] = useState({ top: 0, right: 0, bottom: 0, left: 0 });
-  const [expandHistory, setExpandHistory] = useState<typeof expandSteps[]>([]);
+  // Pixels added on each side of the original.
+  const [expandPadding, setExpandPadding] = useState<Padding>(NO_PADDING);
+  const [expandHistory, setExpandHistory] = useState<Padding[]>([]);
+  const [expandTargetSize, setExpandTargetSize] = useState({ width: '', height: '' });
   
   // State for cropping
   const [isCropping, setIsCropping] = useState(false);
 
 
+  useEffect(() => {
+    saveLocalSetting('generationSettings', generationSettings);
+  }, [generationSettings]);
+
+  useEffect(() => {
+    saveLocalSetting('fillFeather', fillFeather);
+  }, [fillFeather]);
+
+  useEffect(() => {
+    saveLocalSetting('expandSeam', expandSeam);
+  }, [expandSeam]);
+
+  useEffect(() => {
+    saveLocalSetting('maxWorkingResolution', maxWorkingResolution);
+  }, [maxWorkingResolution]);
+
+  useEffect(() => {
+    saveLocalSetting('presets', presets);
+  }, [presets]);
+
+  useEffect(() => {
+    saveLocalSetting('recentPrompts', recentPrompts);
+  }, [recentPrompts]);
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error("Could not load projects:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (appState === AppState.HOME) refreshProjects();
+  }, [appState, refreshProjects]);
+
+  const thumbnailCache = useRef<{ url: string; thumbnailUrl: string } | null>(null);
+
+  useEffect(() => {
+    const currentImage = history.entries[history.index]?.image;
+    if (!project || !currentImage) return;
+    const timeoutId = window.setTimeout(async () => {
+      try {
+        if (thumbnailCache.current?.url !== currentImage.url) {
+          thumbnailCache.current = { url: currentImage.url, thumbnailUrl: await createThumbnail(currentImage.url) };
+        }
+        await saveProject({
+          ...project,
+          updatedAt: Date.now(),
+          thumbnailUrl: thumbnailCache.current.thumbnailUrl,
+          history,
+          systemContext,
+          prompt,
+          tool,
+          selection: finalSelection,
+        });
+      } catch (err) {
+        console.error("Could not save project:", err);
+      }
+    }, PROJECT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [project, history, systemContext, prompt, tool, finalSelection]);
+
+  // The working image is always the current history step.
+  const originalImage = history.entries[history.index]?.image ?? null;
+  const previousImage = history.entries[history.index - 1]?.image ?? null;
+
+  // What produced the current result, embedded in exported files.
+  const resultMetadata = (): EditMetadata => {
+    const modelTool = tool ?? 'generate';
+    return {
+      tool: modelTool,
+      prompt: originalImage ? prompt : generationPrompt,
+      model: getImageProvider().name === 'mock' ? 'mock' : runtimeSettings.models[modelTool],
+      systemContext: originalImage ? systemContext : undefined,
+    };
+  };
+
   const editorRef = useRef<ImageEditorRef>(null);
+  const requestControllerRef = useRef<AbortController | null>(null);
+  const subjectControllerRef = useRef<AbortController | null>(null);
   const editorContainerRef = useRef<HTMLDivElement>(null);
   const dragStartPos = useRef({ clientX: 0, clientY: 0 });
   const dragStartTransform = useRef({ x: 0, y: 0 });
+  const dragLayerId = useRef<string | null>(null);
+  const expandDragStart = useRef<{ side: keyof Padding; clientX: number; clientY: number; padding: Padding; scale: number } | null>(null);
 
   const fileToDataUrl = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -88,6 +244,81 @@ function App() {
     });
   }
 
+  const urlToEditableImage = async (imageUrl: string, fileName: string): Promise<EditableImage> => {
+    const response = await fetch(imageUrl);
+    const blob = await response.blob();
+    const file = new File([blob], fileName, { type: blob.type });
+    const dataUrl = await fileToDataUrl(file);
+    const { width, height } = await getImageDimensions(dataUrl);
+    return { url: dataUrl, file, width, height };
+  };
+
+  // Starting a history also starts a new project, which is then saved automatically.
+  const startHistory = (image: EditableImage, kind: HistoryStepKind, projectName: string) => {
+    setHistory({ entries: [{ id: crypto.randomUUID(), kind, image }], index: 0 });
+    setProject({ id: crypto.randomUUID(), name: projectName, createdAt: Date.now() });
+  };
+
+  // Adds a step after `fromIndex` (the current step by default), discarding any
+  // steps that were ahead of it so that editing an earlier step starts a new branch.
+  const commitHistoryStep = (image: EditableImage, kind: HistoryStepKind, fromIndex?: number) => {
+    setHistory(h => {
+      const base = h.entries.slice(0, (fromIndex ?? h.index) + 1);
+      return { entries: [...base, { id: crypto.randomUUID(), kind, image }], index: base.length };
+    });
+  };
+
+  // Consecutive crops are all taken from the last non-crop step, like the old
+  // "uncropped original" behaviour.
+  const getCropBaseIndex = () => {
+    let index = history.index;
+    while (index > 0 && history.entries[index].kind === 'crop') index--;
+    return index;
+  };
+
+  const resetWorkingState = () => {
+    setResultData(null);
+    setPrompt('');
+    setInsertLayers([]);
+    setActiveLayerId(null);
+    setError(null);
+    setIsSelectionDone(false);
+    setFinalSelection(null);
+    setTool(null);
+    setIsPlacingImage(false);
+    setExpandPadding(NO_PADDING);
+    setExpandHistory([]);
+  };
+
+  const handleHistorySelect = (index: number) => {
+    if (index < 0 || index >= history.entries.length) return;
+    setHistory(h => ({ ...h, index }));
+    resetWorkingState();
+    setAppState(AppState.TOOL_SELECTION);
+  };
+
+  const handleHistoryUndo = () => handleHistorySelect(history.index - 1);
+  const handleHistoryRedo = () => handleHistorySelect(history.index + 1);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z step through the edit history, or through
+  // mask strokes while a selection is being made.
+  useEffect(() => {
+    const isSelecting = appState === AppState.EDITING && !isSelectionDone && !isCropping;
+    if (appState !== AppState.TOOL_SELECTION && appState !== AppState.RESULT && !isSelecting) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      e.preventDefault();
+      if (isSelecting) {
+        if (e.shiftKey) editorRef.current?.redo();
+        else editorRef.current?.undo();
+      } else if (e.shiftKey) handleHistoryRedo();
+      else handleHistoryUndo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -95,15 +326,18 @@ function App() {
         setError('Please upload a valid image file (PNG, JPG, etc.).');
         return;
       }
+      if (file.size > MAX_UPLOAD_MB * 1024 * 1024) {
+        setError(`Please upload an image smaller than ${MAX_UPLOAD_MB}MB.`);
+        return;
+      }
       const reader = new FileReader();
       reader.onload = async (event) => {
         const url = event.target?.result as string;
         const { width, height } = await getImageDimensions(url);
-        setOriginalImage({ url, file, width, height });
+        startHistory({ url, file, width, height }, 'upload', file.name);
         setAppState(AppState.TOOL_SELECTION);
         setError(null);
         setResultData(null);
-        setUncroppedOriginalImage(null);
       };
       reader.readAsDataURL(file);
     }
@@ -116,20 +350,60 @@ function App() {
         setError('Please upload a valid image file.');
         return;
       }
+      if (file.size > MAX_UPLOAD_MB * 1024 * 1024) {
+        setError(`Please upload an image smaller than ${MAX_UPLOAD_MB}MB.`);
+        return;
+      }
       const reader = new FileReader();
       reader.onload = (event) => {
-        setInsertImage({ url: event.target?.result as string, file });
+        const url = event.target?.result as string;
+        const id = crypto.randomUUID();
+        setInsertLayers(layers => [...layers, { id, url, file, transform: DEFAULT_IMAGE_TRANSFORM, hasAlpha: false }]);
+        setActiveLayerId(id);
+        setInsertCutout(null);
+        hasTransparency(url).then(hasAlpha => updateLayer(id, { hasAlpha })).catch(() => {});
         setError(null);
         setIsPlacingImage(true);
-        setInsertImageTransform({
-          x: 50, y: 50, scale: 50, rotation: 0, opacity: 100,
-          perspective: 1000, rotateX: 0, rotateY: 0,
-        });
       };
       reader.readAsDataURL(file);
     }
+    // Lets the same file be added again as another layer.
+    e.target.value = '';
+  };
+
+  const updateLayer = (id: string, changes: Partial<InsertLayer>) => {
+    setInsertLayers(layers => layers.map(layer => layer.id === id ? { ...layer, ...changes } : layer));
   };
 
+  const updateActiveTransform = (update: (transform: ImageTransform) => ImageTransform) => {
+    setInsertLayers(layers => layers.map(layer => layer.id === activeLayerId ? { ...layer, transform: update(layer.transform) } : layer));
+  };
+
+  // Moves a layer up (towards the top) or down the stack.
+  const moveLayer = (id: string, direction: 1 | -1) => {
+    setInsertLayers(layers => {
+      const index = layers.findIndex(layer => layer.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= layers.length) return layers;
+      const next = layers.slice();
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeLayer = (id: string) => {
+    const remaining = insertLayers.filter(layer => layer.id !== id);
+    setInsertLayers(remaining);
+    if (insertCutout?.layerId === id) setInsertCutout(null);
+    if (activeLayerId === id) setActiveLayerId(remaining[remaining.length - 1]?.id ?? null);
+    if (remaining.length === 0) setIsPlacingImage(false);
+  };
+
+  const selectLayer = useCallback((id: string) => {
+    setActiveLayerId(id);
+    if (insertCutout?.layerId !== id) setInsertCutout(null);
+  }, [insertCutout]);
+
   const handleToolSelect = (selectedTool: Tool) => {
     setTool(selectedTool);
     setError(null); // Clear previous errors when selecting a new tool
@@ -137,7 +411,7 @@ function App() {
         const step = Math.round(Math.min(originalImage.width, originalImage.height) * 0.25);
         setExpansionStepSize(step);
         setAppState(AppState.EXPANDING);
-        setExpandSteps({ top: 0, right: 0, bottom: 0, left: 0 });
+        setExpandPadding(NO_PADDING);
         setExpandHistory([]);
     } else if (selectedTool !== 'expand') {
         setAppState(AppState.EDITING);
@@ -146,74 +420,214 @@ function App() {
     }
   };
   
+  // Every change to the expansion can be undone.
+  const changeExpandPadding = (padding: Padding) => {
+    setExpandHistory(h => [...h, expandPadding]);
+    setExpandPadding(padding);
+  };
+
   const handleExpandClick = (direction: 'top' | 'right' | 'bottom' | 'left' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right') => {
-    const totalClicks = Object.values(expandSteps).reduce((sum, val) => sum + val, 0);
-    if (totalClicks >= MAX_EXPANSION_CLICKS) {
-      setError(`You can expand up to ${MAX_EXPANSION_CLICKS} times per generation.`);
-      setTimeout(() => setError(null), 3000);
-      return;
-    }
-    
-    setExpandHistory(h => [...h, expandSteps]);
-
-    setExpandSteps(steps => {
-        const newSteps = { ...steps };
-        if (direction.includes('top')) newSteps.top++;
-        if (direction.includes('bottom')) newSteps.bottom++;
-        if (direction.includes('left')) newSteps.left++;
-        if (direction.includes('right')) newSteps.right++;
-        return newSteps;
-    });
+    const next = { ...expandPadding };
+    if (direction.includes('top')) next.top += expansionStepSize;
+    if (direction.includes('bottom')) next.bottom += expansionStepSize;
+    if (direction.includes('left')) next.left += expansionStepSize;
+    if (direction.includes('right')) next.right += expansionStepSize;
+    changeExpandPadding(next);
   };
 
   const handleUndoExpand = () => {
     if (expandHistory.length === 0) return;
-    const previousSteps = expandHistory[expandHistory.length - 1];
-    setExpandSteps(previousSteps);
+    setExpandPadding(expandHistory[expandHistory.length - 1]);
     setExpandHistory(h => h.slice(0, -1));
   };
 
-  const handleExpandSubmit = useCallback(async () => {
+  const handleExpandTargetSubmit = () => {
     if (!originalImage) return;
+    const width = parseInt(expandTargetSize.width, 10);
+    const height = parseInt(expandTargetSize.height, 10);
+    if (!(width > 0 && height > 0)) {
+      setError('Please enter a width and height in pixels.');
+      return;
+    }
+    if (width < originalImage.width || height < originalImage.height) {
+      setError(`The target must be at least ${originalImage.width} x ${originalImage.height}, the size of the image.`);
+      return;
+    }
+    setError(null);
+    changeExpandPadding(paddingForTargetSize(originalImage.width, originalImage.height, width, height));
+  };
 
+  // Edge handles: dragging a side outwards adds padding to it.
+  const handleExpandHandleDown = (e: React.PointerEvent, side: keyof Padding, scale: number) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    expandDragStart.current = { side, clientX: e.clientX, clientY: e.clientY, padding: expandPadding, scale };
+  };
+
+  const handleExpandHandleMove = (e: React.PointerEvent) => {
+    const start = expandDragStart.current;
+    if (!start) return;
+    const delta = {
+      top: start.clientY - e.clientY,
+      bottom: e.clientY - start.clientY,
+      left: start.clientX - e.clientX,
+      right: e.clientX - start.clientX,
+    }[start.side] / start.scale;
+    setExpandPadding({ ...start.padding, [start.side]: Math.max(0, Math.round(start.padding[start.side] + delta)) });
+  };
+
+  // A drag is one undo step, recorded once it's over so a plain click adds none.
+  const handleExpandHandleUp = () => {
+    const start = expandDragStart.current;
+    expandDragStart.current = null;
+    if (start && expandPadding[start.side] !== start.padding[start.side]) setExpandHistory(h => [...h, start.padding]);
+  };
+
+  useEffect(() => {
+    if (!originalImage) return;
+    const { width, height } = expandedSize(originalImage.width, originalImage.height, expandPadding);
+    setExpandTargetSize({ width: String(width), height: String(height) });
+  }, [originalImage, expandPadding]);
+
+  // Enters the loading screen for a cancelable request. Cancelling goes back to
+  // `returnState` with every input left as it was.
+  const beginRequest = (message: string, returnState: AppState): Required<Pick<RequestOptions, 'signal' | 'onProgress'>> => {
+    requestControllerRef.current?.abort();
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
     setError(null);
+    setLoadingMessage(message);
+    setProgress({ stage: 'preparing', startedAt: Date.now(), returnState });
     setAppState(AppState.LOADING);
-    setLoadingMessage('Expanding your canvas...');
+    return {
+      signal: controller.signal,
+      onProgress: (stage, detail) => {
+        if (!controller.signal.aborted) setProgress(p => ({ ...p, stage, detail }));
+      },
+    };
+  };
+
+  const handleSaveSettings = (settings: RuntimeSettings) => {
+    configureGemini(settings);
+    setRuntimeSettings(settings);
+    saveLocalSetting('runtimeSettings', settings);
+    setIsSettingsOpen(false);
+  };
 
+  const rememberPrompt = (field: PromptField, text: string) => {
+    setRecentPrompts(r => ({ ...r, [field]: addRecentPrompt(r[field] ?? [], text) }));
+  };
+
+  const handleCancelRequest = () => {
+    requestControllerRef.current?.abort();
+    requestControllerRef.current = null;
+    setError(null);
+    setAppState(progress.returnState);
+  };
+
+  // Runs beside the editor instead of through the loading screen, so the
+  // selection being built stays on screen.
+  const handleSelectSubject = async (target: SubjectTarget) => {
+    if (!originalImage) return;
+    subjectControllerRef.current?.abort();
+    const controller = new AbortController();
+    subjectControllerRef.current = controller;
+    setIsSelectingSubject(true);
+    setError(null);
     try {
-        const { width: originalWidth, height: originalHeight } = originalImage;
-        const finalWidth = originalWidth + (expandSteps.left + expandSteps.right) * expansionStepSize;
-        const finalHeight = originalHeight + (expandSteps.top + expandSteps.bottom) * expansionStepSize;
-
-        const canvas = document.createElement('canvas');
-        canvas.width = finalWidth;
-        canvas.height = finalHeight;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) throw new Error("Could not create canvas for expansion");
-        
-        ctx.fillStyle = '#808080';
-        ctx.fillRect(0, 0, finalWidth, finalHeight);
+      const image = await toUploadPayload(originalImage.url, fitWithin(originalImage.width, originalImage.height, maxWorkingResolution), originalImage.file.type);
+      const segments = await segmentSubject(target, image.base64, image.mimeType, { signal: controller.signal });
+      const mask = await renderSegmentMask(pickSubjectSegments(segments, target), originalImage.width, originalImage.height);
+      throwIfAborted(controller.signal);
+      editorRef.current?.combineMask(mask, maskMode === 'erase' ? 'subtract' : 'add');
+    } catch (err) {
+      if (!(err instanceof CancelledError)) setError(describeError(err));
+    } finally {
+      if (subjectControllerRef.current === controller) {
+        subjectControllerRef.current = null;
+        setIsSelectingSubject(false);
+      }
+    }
+  };
 
-        const img = new Image();
-        img.src = originalImage.url;
-        await new Promise(r => img.onload = r);
-        
-        const imgDrawX = expandSteps.left * expansionStepSize;
-        const imgDrawY = expandSteps.top * expansionStepSize;
-        ctx.drawImage(img, imgDrawX, imgDrawY, originalWidth, originalHeight);
-        
-        const compositeDataUrl = canvas.toDataURL(originalImage.file.type);
-        const compositeBase64 = compositeDataUrl.split(',')[1];
-        
-        const resultImageUrl = await expandImage(prompt, compositeBase64, originalImage.file.type);
-        setResultData({ url: resultImageUrl, type: 'image' });
+  const handleRemoveBackground = async () => {
+    const layer = insertLayers.find(l => l.id === activeLayerId);
+    if (!layer) return;
+    subjectControllerRef.current?.abort();
+    const controller = new AbortController();
+    subjectControllerRef.current = controller;
+    setIsRemovingBackground(true);
+    setError(null);
+    try {
+      const { width, height } = await getImageDimensions(layer.url);
+      const image = await toUploadPayload(layer.url, fitWithin(width, height, maxWorkingResolution), 'image/png');
+      const segments = await segmentSubject({ phrase: 'the main subject in the foreground' }, image.base64, image.mimeType, { signal: controller.signal });
+      const mask = await renderSegmentMask(segments, width, height);
+      const cutout = await applyAlphaMask(layer.url, mask);
+      throwIfAborted(controller.signal);
+      setInsertCutout({ layerId: layer.id, url: cutout });
+    } catch (err) {
+      if (!(err instanceof CancelledError)) setError(describeError(err));
+    } finally {
+      if (subjectControllerRef.current === controller) {
+        subjectControllerRef.current = null;
+        setIsRemovingBackground(false);
+      }
+    }
+  };
+
+  const handleAcceptCutout = async () => {
+    const layer = insertLayers.find(l => l.id === insertCutout?.layerId);
+    if (!layer || !insertCutout) return;
+    const { url, file } = await urlToEditableImage(insertCutout.url, `${layer.file.name.replace(/\.[^.]+$/, '')}-cutout.png`);
+    updateLayer(layer.id, { url, file, hasAlpha: true });
+    setInsertCutout(null);
+  };
+
+  const handleExpandSubmit = useCallback(async () => {
+    if (!originalImage) return;
+
+    const request = beginRequest('Expanding your canvas...', AppState.EXPANDING);
+
+    try {
+        // Each pass outpaints the previous pass's result. Only the last one
+        // produces variations.
+        const passes = planExpandPasses(originalImage.width, originalImage.height, expandPadding);
+        let current = { url: originalImage.url, width: originalImage.width, height: originalImage.height };
+        let candidateUrls: string[] = [];
+        let rawCandidateUrls: string[] = [];
+        for (const [i, passPadding] of passes.entries()) {
+          const isLastPass = i === passes.length - 1;
+          const passLabel = passes.length > 1 ? `pass ${i + 1} of ${passes.length}` : undefined;
+          const { width, height } = expandedSize(current.width, current.height, passPadding);
+          const compositeDataUrl = await padImage(current.url, passPadding, originalImage.file.type);
+          const composite = await toUploadPayload(compositeDataUrl, fitWithin(width, height, maxWorkingResolution), originalImage.file.type);
+
+          const passResults = await expandImage(prompt, composite.base64, composite.mimeType, {
+            count: isLastPass ? variationCount : 1,
+            signal: request.signal,
+            onProgress: (stage, detail) => request.onProgress(stage, [passLabel, detail].filter(Boolean).join(', ') || undefined),
+          });
+          request.onProgress('post-processing', passLabel);
+          // The model tends to alter the original slightly, so its pixels are put back.
+          rawCandidateUrls = await Promise.all(passResults.map(url => resizeImage(url, width, height)));
+          candidateUrls = await Promise.all(rawCandidateUrls.map(url => compositeExpandResult(current.url, url, passPadding, expandSeam)));
+          current = { url: candidateUrls[0], width, height };
+        }
+        const resultImage = await urlToEditableImage(candidateUrls[0], originalImage.file.name);
+        throwIfAborted(request.signal);
+        commitHistoryStep(resultImage, 'expand');
+        rememberPrompt('expand', prompt);
+        setResultData({ url: candidateUrls[0], type: 'image', candidates: candidateUrls, rawCandidates: rawCandidateUrls });
+        setShowRawResult(false);
         setAppState(AppState.RESULT);
 
-    } catch (err: any) {
-        setError(err.message || 'An unexpected error occurred.');
+    } catch (err) {
+        if (err instanceof CancelledError) return;
+        setError(describeError(err));
         setAppState(AppState.EXPANDING);
     }
-  }, [originalImage, expandSteps, prompt, expansionStepSize]);
+  }, [originalImage, expandPadding, prompt, variationCount, maxWorkingResolution, expandSeam]);
 
 
   const handleEditSubmit = useCallback(async () => {
@@ -233,13 +647,13 @@ function App() {
       return;
     }
 
-    setError(null);
-    setAppState(AppState.LOADING);
+    const request = beginRequest('Applying AI magic...', AppState.EDITING);
 
     try {
-      const originalDataUrl = await fileToDataUrl(originalImage.file);
-      const originalBase64 = originalDataUrl.split(',')[1];
-      let resultImageUrl: string;
+      const uploadSize = fitWithin(originalImage.width, originalImage.height, maxWorkingResolution);
+      const original = await toUploadPayload(originalImage.url, uploadSize, originalImage.file.type);
+      let candidateUrls: string[];
+      let rawCandidateUrls: string[] | undefined;
 
       if (tool === 'magicFill') {
         if (!prompt) {
@@ -253,35 +667,35 @@ function App() {
             return;
         }
         setLoadingMessage('Applying AI magic...');
-        resultImageUrl = await editImageWithText(
+        const mask = await toUploadPayload(toDataUrl('image/png', finalSelection), uploadSize, 'image/png');
+        candidateUrls = await editImageWithText(
           prompt,
-          originalBase64,
-          finalSelection,
-          originalImage.file.type,
-          systemContext
+          original.base64,
+          mask.base64,
+          original.mimeType,
+          systemContext,
+          { count: variationCount, ...request }
         );
+        // The model doesn't reliably leave unselected pixels alone, so only the
+        // selected region of each result is kept.
+        request.onProgress('post-processing');
+        rawCandidateUrls = candidateUrls;
+        candidateUrls = await Promise.all(rawCandidateUrls.map(url => compositeMaskedResult(originalImage.url, url, finalSelection, fillFeather)));
       } else if (tool === 'insert') {
-        if (!insertImage) {
+        if (insertLayers.length === 0) {
           setError("Please upload an image to insert.");
           setAppState(AppState.EDITING);
           return;
         }
         setLoadingMessage('Blending image...');
-        const originalImg = new Image(); originalImg.src = originalImage.url;
-        const insertImg = new Image(); insertImg.src = insertImage.url;
-        await Promise.all([new Promise(r => originalImg.onload = r), new Promise(r => insertImg.onload = r)]);
-
-        const { naturalWidth: imgWidth, naturalHeight: imgHeight } = insertImg;
-
-        const buildTransformMatrix = (canvas: HTMLCanvasElement): DOMMatrix => {
-            const { x, y, scale, rotation, rotateX, rotateY } = insertImageTransform;
-            const matrix = new DOMMatrix();
-            matrix.translateSelf((x / 100) * canvas.width, (y / 100) * canvas.height);
-            matrix.rotateSelf(rotateX, rotateY, rotation);
-            matrix.scaleSelf(scale / 100);
-            matrix.translateSelf(-imgWidth / 2, -imgHeight / 2);
-            return matrix;
-        }
+        // Every layer goes into one composite and one mask so the scene is blended in a single pass.
+        const [originalImg, ...layerImages] = await Promise.all([originalImage.url, ...insertLayers.map(layer => layer.url)].map(loadImage));
+        const placements = insertLayers.map((layer, i) => {
+          const image = layerImages[i];
+          const { naturalWidth: imgWidth, naturalHeight: imgHeight } = image;
+          const matrix = insertTransformMatrix(layer.transform, originalImage.width, originalImage.height, imgWidth, imgHeight);
+          return { image, opacity: layer.transform.opacity / 100, matrix, insert: { width: imgWidth, height: imgHeight, data: getPixels(image, imgWidth, imgHeight) } };
+        });
 
         const compositeCanvas = document.createElement('canvas');
         compositeCanvas.width = originalImage.width;
@@ -289,67 +703,70 @@ function App() {
         const ctx = compositeCanvas.getContext('2d');
         if (!ctx) throw new Error("Could not create canvas context");
         ctx.drawImage(originalImg, 0, 0);
-        ctx.save();
-        ctx.globalAlpha = insertImageTransform.opacity / 100;
-        ctx.setTransform(buildTransformMatrix(compositeCanvas));
-        ctx.drawImage(insertImg, 0, 0, imgWidth, imgHeight);
-        ctx.restore();
-        const compositeDataUrl = compositeCanvas.toDataURL(insertImage.file.type);
-        const compositeBase64 = compositeDataUrl.split(',')[1];
+        for (const { image, opacity, matrix: { a, b, c, d, e, f } } of placements) {
+          ctx.save();
+          ctx.globalAlpha = opacity;
+          ctx.setTransform(a, b, c, d, e, f);
+          ctx.drawImage(image, 0, 0, image.naturalWidth, image.naturalHeight);
+          ctx.restore();
+        }
+        const compositeDataUrl = compositeCanvas.toDataURL(originalImage.file.type);
+        const composite = await toUploadPayload(compositeDataUrl, uploadSize, originalImage.file.type);
         
-        const maskCanvas = document.createElement('canvas');
-        maskCanvas.width = originalImage.width;
-        maskCanvas.height = originalImage.height;
-        const maskCtx = maskCanvas.getContext('2d');
-        if (!maskCtx) throw new Error("Could not create mask canvas context");
-        maskCtx.fillStyle = 'black';
-        maskCtx.fillRect(0, 0, maskCanvas.width, maskCanvas.height);
-        maskCtx.save();
-        maskCtx.fillStyle = 'white';
-        maskCtx.setTransform(buildTransformMatrix(maskCanvas));
-        maskCtx.fillRect(0, 0, imgWidth, imgHeight);
-        maskCtx.restore();
-        const preciseMaskDataUrl = maskCanvas.toDataURL('image/png');
-        const preciseMaskBase64 = preciseMaskDataUrl.split(',')[1];
-
-        resultImageUrl = await blendImages(
-          originalBase64, compositeBase64, preciseMaskBase64,
-          originalImage.file.type, insertImage.file.type
+        const maskRaster = buildInsertMask(originalImage.width, originalImage.height, placements);
+        const preciseMask = await toUploadPayload(rasterToDataUrl(maskRaster), uploadSize, 'image/png');
+
+        const blendedUrls = await blendImages(
+          original.base64, composite.base64, preciseMask.base64,
+          original.mimeType, composite.mimeType,
+          { count: variationCount, ...request }
         );
+        request.onProgress('post-processing');
+        candidateUrls = await Promise.all(blendedUrls.map(url => resizeImage(url, originalImage.width, originalImage.height)));
       } else {
         throw new Error("Invalid edit mode selected.");
       }
 
-      setResultData({ url: resultImageUrl, type: 'image' });
+      const resultImage = await urlToEditableImage(candidateUrls[0], originalImage.file.name);
+      throwIfAborted(request.signal);
+      commitHistoryStep(resultImage, tool);
+      if (tool === 'magicFill') rememberPrompt('magicFill', prompt);
+      setResultData({ url: candidateUrls[0], type: 'image', candidates: candidateUrls, rawCandidates: rawCandidateUrls });
+      setShowRawResult(false);
       setAppState(AppState.RESULT);
 
-    } catch (err: any) {
-      setError(err.message || 'An unexpected error occurred.');
+    } catch (err) {
+      if (err instanceof CancelledError) return;
+      setError(describeError(err));
       setAppState(AppState.EDITING);
     }
-  }, [prompt, originalImage, systemContext, tool, insertImage, insertImageTransform, finalSelection]);
+  }, [prompt, originalImage, systemContext, tool, insertLayers, finalSelection, variationCount, fillFeather, maxWorkingResolution]);
 
   const handleGenerateSubmit = useCallback(async () => {
     if (!generationPrompt) return;
-    setError(null);
-    setLoadingMessage('Creating your image...');
-    setAppState(AppState.LOADING);
+    const request = beginRequest('Creating your image...', AppState.GENERATE_PROMPT);
     try {
-      const resultImageUrl = await generateImage(generationPrompt);
-      setResultData({ url: resultImageUrl, type: 'image' });
-      setOriginalImage(null);
+      const candidateUrls = await generateImage(generationPrompt, { ...generationSettings, count: variationCount, ...request });
+      throwIfAborted(request.signal);
+      rememberPrompt('generate', generationPrompt);
+      setResultData({ url: candidateUrls[0], type: 'image', candidates: candidateUrls });
+      setHistory({ entries: [], index: -1 });
+      setProject(null);
       setAppState(AppState.RESULT);
-    } catch (err: any) {
-      setError(err.message || 'An unexpected error occurred.');
+    } catch (err) {
+      if (err instanceof CancelledError) return;
+      setError(describeError(err));
       setAppState(AppState.GENERATE_PROMPT);
     }
-  }, [generationPrompt]);
+  }, [generationPrompt, generationSettings, variationCount]);
 
   const handleReset = () => {
+    requestControllerRef.current?.abort();
     setAppState(AppState.HOME);
-    setOriginalImage(null);
-    setUncroppedOriginalImage(null);
-    setInsertImage(null);
+    setHistory({ entries: [], index: -1 });
+    setProject(null);
+    setInsertLayers([]);
+    setActiveLayerId(null);
     setResultData(null);
     setPrompt('');
     setGenerationPrompt('');
@@ -359,23 +776,37 @@ function App() {
     setSystemContext('');
     setTool(null);
     setIsPlacingImage(false);
-    setExpandSteps({ top: 0, right: 0, bottom: 0, left: 0 });
+    setExpandPadding(NO_PADDING);
     setExpandHistory([]);
   };
 
-  const handleEditAgain = () => {
+  // The result is already the current history step, so editing the original
+  // again is just a step back.
+  const handleEditAgain = () => handleHistoryUndo();
+
+  const handleContinueEditing = () => {
+    resetWorkingState();
     setAppState(AppState.TOOL_SELECTION);
-    setResultData(null);
-    setPrompt('');
-    setInsertImage(null);
-    setIsPlacingImage(false);
-    setUncroppedOriginalImage(null);
+  };
+
+  // Promotes another candidate to be the result. For edits it replaces the
+  // image of the history step that the first candidate created.
+  const handleSelectCandidate = async (url: string) => {
+    if (!resultData || url === resultData.url) return;
+    setResultData({ ...resultData, url });
+    if (!originalImage) return;
+    try {
+      const image = await urlToEditableImage(url, originalImage.file.name);
+      setHistory(h => ({ ...h, entries: h.entries.map((entry, i) => i === h.index ? { ...entry, image } : entry) }));
+    } catch (err) {
+      setError("Could not select this variation. Please try again.");
+    }
   };
 
   const handleBackToUpload = () => {
     setAppState(AppState.IDLE);
-    setOriginalImage(null);
-    setUncroppedOriginalImage(null);
+    setHistory({ entries: [], index: -1 });
+    setProject(null);
     setResultData(null);
     setPrompt('');
     setError(null);
@@ -386,33 +817,18 @@ function App() {
   const handleBackToToolSelection = () => {
       setAppState(AppState.TOOL_SELECTION);
       setPrompt('');
-      setInsertImage(null);
+      setInsertLayers([]);
+      setActiveLayerId(null);
       setIsPlacingImage(false);
-      setExpandSteps({ top: 0, right: 0, bottom: 0, left: 0 });
+      setExpandPadding(NO_PADDING);
       setExpandHistory([]);
   }
 
   const handleImageResultForEditing = async (imageUrl: string, fileName: string) => {
     try {
-      const response = await fetch(imageUrl);
-      const blob = await response.blob();
-      const file = new File([blob], fileName, { type: blob.type });
-      const dataUrl = await fileToDataUrl(file);
-      const { width, height } = await getImageDimensions(dataUrl);
-
-      setOriginalImage({ url: dataUrl, file, width, height });
-      setUncroppedOriginalImage(null);
+      startHistory(await urlToEditableImage(imageUrl, fileName), 'generate', generationPrompt.slice(0, 60) || fileName);
+      resetWorkingState();
       setAppState(AppState.TOOL_SELECTION);
-      setResultData(null);
-      setPrompt('');
-      setInsertImage(null);
-      setError(null);
-      setIsSelectionDone(false);
-      setFinalSelection(null);
-      setTool(null);
-      setIsPlacingImage(false);
-      setExpandSteps({ top: 0, right: 0, bottom: 0, left: 0 });
-      setExpandHistory([]);
 
     } catch (err) {
       setError("Could not prepare image for editing. Please try again.");
@@ -420,6 +836,72 @@ function App() {
     }
   };
 
+  const handleOpenProject = async (id: string) => {
+    try {
+      const saved = await getProject(id);
+      if (!saved || saved.history.entries.length === 0) throw new Error("Project not found.");
+      resetWorkingState();
+      setHistory(saved.history);
+      setProject({ id: saved.id, name: saved.name, createdAt: saved.createdAt });
+      setSystemContext(saved.systemContext);
+      setPrompt(saved.prompt);
+      // A Magic Fill in progress reopens at the prompt step with its selection.
+      if (saved.tool === 'magicFill' && saved.selection) {
+        setTool('magicFill');
+        setFinalSelection(saved.selection);
+        setIsSelectionDone(true);
+        setAppState(AppState.EDITING);
+      } else {
+        setAppState(AppState.TOOL_SELECTION);
+      }
+    } catch (err: any) {
+      setError(err.message || "Could not open project.");
+    }
+  };
+
+  const runProjectAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || failureMessage);
+    }
+    refreshProjects();
+  };
+
+  const handleDeleteProject = (id: string) => {
+    const name = projects.find(p => p.id === id)?.name ?? 'this project';
+    if (!window.confirm(`Delete "${name}"? This cannot be undone.`)) return;
+    runProjectAction(() => deleteProject(id), "Could not delete project.");
+  };
+
+  const handleExportProject = (id: string) => runProjectAction(async () => {
+    const blob = await exportProject(id);
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${projects.find(p => p.id === id)?.name ?? 'project'}.bananabrush.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }, "Could not export project.");
+
+  const handleExportPresets = () => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(exportPresetPack(presets));
+    link.download = 'banana-brush-presets.json';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      const imported = await importPresetPack(file, presets);
+      setPresets(p => [...p, ...imported]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not import presets.");
+    }
+  };
+
   const handleDragMove = useCallback((e: MouseEvent) => {
     const container = editorContainerRef.current;
     if (!container) return;
@@ -431,10 +913,13 @@ function App() {
     const deltaXPercent = (deltaX / width) * 100;
     const deltaYPercent = (deltaY / height) * 100;
 
-    setInsertImageTransform(t => ({
-      ...t,
-      x: Math.max(0, Math.min(100, dragStartTransform.current.x + deltaXPercent)),
-      y: Math.max(0, Math.min(100, dragStartTransform.current.y + deltaYPercent)),
+    setInsertLayers(layers => layers.map(layer => layer.id !== dragLayerId.current ? layer : {
+      ...layer,
+      transform: {
+        ...layer.transform,
+        x: Math.max(0, Math.min(100, dragStartTransform.current.x + deltaXPercent)),
+        y: Math.max(0, Math.min(100, dragStartTransform.current.y + deltaYPercent)),
+      },
     }));
   }, []);
 
@@ -444,27 +929,26 @@ function App() {
     window.removeEventListener('mouseup', handleDragEnd);
   }, [handleDragMove]);
 
-  const handleDragStart = useCallback((e: React.MouseEvent) => {
-    if (!isPlacingImage || !insertImage) return;
+  const handleDragStart = useCallback((e: React.MouseEvent, layer: InsertLayer) => {
+    if (!isPlacingImage) return;
     e.preventDefault();
+    selectLayer(layer.id);
     setIsDragging(true);
+    dragLayerId.current = layer.id;
     dragStartPos.current = { clientX: e.clientX, clientY: e.clientY };
-    dragStartTransform.current = { x: insertImageTransform.x, y: insertImageTransform.y };
+    dragStartTransform.current = { x: layer.transform.x, y: layer.transform.y };
     window.addEventListener('mousemove', handleDragMove);
     window.addEventListener('mouseup', handleDragEnd);
-  }, [isPlacingImage, insertImage, insertImageTransform.x, insertImageTransform.y, handleDragMove, handleDragEnd]);
+  }, [isPlacingImage, selectLayer, handleDragMove, handleDragEnd]);
   
   const handleStartCropping = () => {
-    if (!uncroppedOriginalImage && originalImage) {
-      setUncroppedOriginalImage(originalImage);
-    }
     setIsCropping(true);
   };
 
   const handleRestoreOriginal = () => {
-    if (uncroppedOriginalImage) {
-      setOriginalImage(uncroppedOriginalImage);
-      setUncroppedOriginalImage(null);
+    const cropBaseIndex = getCropBaseIndex();
+    if (cropBaseIndex !== history.index) {
+      setHistory(h => ({ ...h, index: cropBaseIndex }));
       
       // Reset dependant states
       setIsSelectionDone(false);
@@ -474,14 +958,22 @@ function App() {
     setIsCropping(false);
   };
 
-  const handleSaveCrop = async (croppedDataUrl: string) => {
+  // Adjustments are a normal history step, so the next AI tool starts from them.
+  const handleApplyAdjustments = async (adjustedDataUrl: string) => {
+    if (!originalImage) return;
     try {
-        const response = await fetch(croppedDataUrl);
-        const blob = await response.blob();
-        const file = new File([blob], `cropped_${originalImage?.file.name}`, { type: blob.type });
-        const { width, height } = await getImageDimensions(croppedDataUrl);
+      commitHistoryStep(await urlToEditableImage(adjustedDataUrl, `adjusted_${originalImage.file.name}`), 'adjust');
+      setAppState(AppState.TOOL_SELECTION);
+    } catch (err) {
+      setError("Could not apply the adjustments. Please try again.");
+    }
+  };
 
-        setOriginalImage({ url: croppedDataUrl, file, width, height });
+  const handleSaveCrop = async (croppedDataUrl: string) => {
+    try {
+        const cropBaseIndex = getCropBaseIndex();
+        const baseName = history.entries[cropBaseIndex]?.image.file.name;
+        commitHistoryStep(await urlToEditableImage(croppedDataUrl, `cropped_${baseName}`), 'crop', cropBaseIndex);
         
         // Reset dependant states
         setIsSelectionDone(false);
@@ -496,21 +988,75 @@ function App() {
   };
 
   const renderPlacementUI = () => {
-    if (!isPlacingImage || !insertImage) return null;
-    const { x, y, scale, rotation, opacity, rotateX, rotateY } = insertImageTransform;
-    const style: CSSProperties = {
-      position: 'absolute', top: `${y}%`, left: `${x}%`,
-      width: 'auto', height: 'auto', maxWidth: '200%', maxHeight: '200%',
-      transform: `translate(-50%, -50%) rotateX(${rotateX}deg) rotateY(${rotateY}deg) rotate(${rotation}deg) scale(${scale / 100})`,
-      opacity: opacity / 100, cursor: isDragging ? 'grabbing' : 'grab', touchAction: 'none',
-    };
+    if (!isPlacingImage) return null;
+    return insertLayers.map(layer => {
+      const { x, y, scale, rotation, opacity, perspective, rotateX, rotateY } = layer.transform;
+      const style: CSSProperties = {
+        position: 'absolute', top: `${y}%`, left: `${x}%`,
+        width: 'auto', height: 'auto', maxWidth: '200%', maxHeight: '200%',
+        transform: `translate(-50%, -50%) perspective(${perspective}px) rotateX(${rotateX}deg) rotateY(${rotateY}deg) rotate(${rotation}deg) scale(${scale / 100})`,
+        opacity: opacity / 100, cursor: isDragging ? 'grabbing' : 'grab', touchAction: 'none',
+        outline: layer.id === activeLayerId && insertLayers.length > 1 ? '2px dashed rgb(45 212 191)' : undefined,
+      };
+      return (
+        <div key={layer.id} onMouseDown={(e) => handleDragStart(e, layer)} style={style}>
+          <img src={layer.url} alt="Object to insert" style={{ pointerEvents: 'none', userSelect: 'none' }} draggable="false" />
+        </div>
+      );
+    });
+  };
+  
+  const renderPresetPicker = (kind: PresetKind, currentText: string, onApply: (text: string) => void, field?: PromptField) => (
+    <PresetPicker
+      kind={kind}
+      presets={presets}
+      recent={field ? recentPrompts[field] : undefined}
+      currentText={currentText}
+      onApply={onApply}
+      onSave={(preset) => setPresets(p => [...p, preset])}
+      onDelete={(id) => setPresets(p => p.filter(preset => preset.id !== id))}
+      onExport={handleExportPresets}
+      onImport={handleImportPresets}
+    />
+  );
+
+  const renderVariationPicker = (accent: string) => (
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-sm font-medium text-slate-300">Variations</span>
+      <div className="flex gap-1">
+        {[1, 2, 3, 4].map(count => (
+          <button key={count} onClick={() => setVariationCount(count)} className={`w-8 h-8 text-sm font-semibold rounded-md transition-colors ${variationCount === count ? `bg-${accent}-600 text-white` : 'bg-slate-700 hover:bg-slate-600'}`}>{count}</button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderCandidateGrid = () => {
+    if (!resultData || resultData.candidates.length < 2) return null;
     return (
-      <div onMouseDown={handleDragStart} style={style}>
-        <img src={insertImage.url} alt="Object to insert" style={{ pointerEvents: 'none', userSelect: 'none' }} draggable="false" />
+      <div className="w-full">
+        <h3 className="text-lg font-semibold text-slate-400 mb-2 text-center">Variations — pick the best</h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {resultData.candidates.map((url, index) => (
+            <button key={index} onClick={() => handleSelectCandidate(url)} className={`rounded-lg overflow-hidden transition-all ${url === resultData.url ? 'ring-4 ring-indigo-500' : 'opacity-70 hover:opacity-100'}`} aria-label={`Use variation ${index + 1}`}>
+              <img src={url} alt={`Variation ${index + 1}`} className="w-full object-contain" />
+            </button>
+          ))}
+        </div>
       </div>
     );
   };
-  
+
+  const renderHistoryTimeline = () => (
+    <HistoryTimeline
+      entries={history.entries}
+      currentIndex={history.index}
+      onSelect={handleHistorySelect}
+      onUndo={handleHistoryUndo}
+      onRedo={handleHistoryRedo}
+    />
+  );
+
   const ToolButton: React.FC<{onClick: () => void, icon: React.ReactNode, title: string, description: string, color: string}> = ({onClick, icon, title, description, color}) => (
       <div onClick={onClick} className={`bg-slate-800 p-8 rounded-lg shadow-lg hover:shadow-${color}-500/30 border border-slate-700 hover:border-${color}-500 transition-all duration-300 cursor-pointer transform hover:-translate-y-1`}>
           {icon}
@@ -519,13 +1065,28 @@ function App() {
       </div>
   );
 
+  const generatedExtension = generationSettings.outputMimeType === 'image/jpeg' ? 'jpg' : 'png';
+
   const renderContent = () => {
     switch (appState) {
       case AppState.HOME:
         return (
-          <div className="w-full max-w-4xl grid grid-cols-1 md:grid-cols-2 gap-8 text-center">
-            <ToolButton onClick={() => setAppState(AppState.IDLE)} icon={<BrushIcon className="w-16 h-16 mx-auto text-indigo-400" />} title="Edit an Image" description="Upload your own photo to edit, insert objects, or expand the canvas." color="indigo" />
-            <ToolButton onClick={() => setAppState(AppState.GENERATE_PROMPT)} icon={<PhotoIcon className="w-16 h-16 mx-auto text-teal-400" />} title="Create an Image" description="Generate a brand new image from a text description using AI." color="teal" />
+          <div className="w-full max-w-4xl flex flex-col items-center gap-12">
+            <div className="w-full grid grid-cols-1 md:grid-cols-3 gap-8 text-center">
+              <ToolButton onClick={() => setAppState(AppState.IDLE)} icon={<BrushIcon className="w-16 h-16 mx-auto text-indigo-400" />} title="Edit an Image" description="Upload your own photo to edit, insert objects, or expand the canvas." color="indigo" />
+              <ToolButton onClick={() => setAppState(AppState.GENERATE_PROMPT)} icon={<PhotoIcon className="w-16 h-16 mx-auto text-teal-400" />} title="Create an Image" description="Generate a brand new image from a text description using AI." color="teal" />
+              <ToolButton onClick={() => { setError(null); setAppState(AppState.BATCH); }} icon={<SparklesIcon className="w-16 h-16 mx-auto text-purple-400" />} title="Batch Edit" description="Apply the same fill, expansion or instruction to many images at once." color="purple" />
+            </div>
+            <ProjectList
+              projects={projects}
+              onOpen={handleOpenProject}
+              onRename={(id, name) => runProjectAction(() => renameProject(id, name), "Could not rename project.")}
+              onDuplicate={(id) => runProjectAction(() => duplicateProject(id), "Could not duplicate project.")}
+              onDelete={handleDeleteProject}
+              onExport={handleExportProject}
+              onImport={(file) => runProjectAction(() => importProject(file), "Could not import project.")}
+            />
+            {error && <p className="text-center text-red-400">{error}</p>}
           </div>
         )
       case AppState.GENERATE_PROMPT:
@@ -533,6 +1094,25 @@ function App() {
           <div className="w-full max-w-lg space-y-6">
             <h2 className="text-2xl font-bold text-center">Describe the image you want to create</h2>
             <textarea value={generationPrompt} onChange={(e) => setGenerationPrompt(e.target.value)} placeholder="e.g., a photorealistic portrait of a cat wearing a monocle" className="w-full h-32 bg-slate-800 border border-slate-700 rounded-md px-4 py-3 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition" rows={4} />
+            {renderPresetPicker('prompt', generationPrompt, setGenerationPrompt, 'generate')}
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-slate-300">Aspect Ratio</span>
+              <div className="grid grid-cols-5 gap-2">
+                {GENERATION_ASPECT_RATIOS.map(ratio => (
+                  <button key={ratio} onClick={() => setGenerationSettings(s => ({ ...s, aspectRatio: ratio }))} className={`px-2 py-1.5 text-sm font-semibold rounded-md transition-colors ${generationSettings.aspectRatio === ratio ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}>{ratio}</button>
+                ))}
+              </div>
+            </div>
+            {renderVariationPicker('indigo')}
+            <details className="group bg-slate-800 rounded-md"><summary className="flex justify-between items-center p-3 text-sm font-medium cursor-pointer list-none hover:bg-slate-700 rounded-md">More Options<ChevronDownIcon className="w-5 h-5 transition-transform duration-300 group-open:rotate-180" /></summary>
+              <div className="p-3 space-y-4">
+                <div><label htmlFor="negative-prompt" className="block text-sm font-medium text-slate-300 mb-1">Avoid (negative prompt)</label><input id="negative-prompt" type="text" value={generationSettings.negativePrompt} onChange={(e) => setGenerationSettings(s => ({ ...s, negativePrompt: e.target.value }))} placeholder="e.g., text, watermarks, blur" className="w-full bg-slate-700 border border-slate-600 rounded-md px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition" /></div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div><label htmlFor="output-format" className="block text-sm font-medium text-slate-300 mb-1">Format</label><select id="output-format" value={generationSettings.outputMimeType} onChange={(e) => setGenerationSettings(s => ({ ...s, outputMimeType: e.target.value as GenerationOutputFormat }))} className="w-full bg-slate-700 border border-slate-600 rounded-md px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none"><option value="image/png">PNG</option><option value="image/jpeg">JPEG</option></select></div>
+                  <div><label htmlFor="person-generation" className="block text-sm font-medium text-slate-300 mb-1">People</label><select id="person-generation" value={generationSettings.personGeneration} onChange={(e) => setGenerationSettings(s => ({ ...s, personGeneration: e.target.value as PersonGenerationSetting }))} className="w-full bg-slate-700 border border-slate-600 rounded-md px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none"><option value="dont_allow">Don't allow</option><option value="allow_adult">Adults only</option><option value="allow_all">Allow all</option></select></div>
+                </div>
+              </div>
+            </details>
             <button onClick={handleGenerateSubmit} disabled={!generationPrompt} className="w-full flex items-center justify-center gap-2 px-5 py-3 font-semibold bg-indigo-600 text-white rounded-md hover:bg-indigo-500 disabled:bg-slate-500 disabled:cursor-not-allowed transition-colors"><SparklesIcon className="w-5 h-5" /> Generate</button>
             {error && <p className="mt-4 text-center text-red-400">{error}</p>}
           </div>
@@ -540,9 +1120,10 @@ function App() {
       case AppState.IDLE:
         return (
           <div className="w-full max-w-md"><div className="w-full space-y-8">
-            <div><label htmlFor="context-input" className="block text-sm font-medium text-slate-300 mb-2">Step 1: What's your goal? (Optional)</label><input id="context-input" type="text" value={systemContext} onChange={(e) => setSystemContext(e.target.value)} placeholder="e.g., photo restoration, marketing image" className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition" /><p className="text-xs text-slate-500 mt-2">Providing context helps the AI understand your task better.</p></div>
+            <div><label htmlFor="context-input" className="block text-sm font-medium text-slate-300 mb-2">Step 1: What's your goal? (Optional)</label><input id="context-input" type="text" value={systemContext} onChange={(e) => setSystemContext(e.target.value)} placeholder="e.g., photo restoration, marketing image" className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition" />{renderPresetPicker('context', systemContext, setSystemContext)}<p className="text-xs text-slate-500 mt-2">Providing context helps the AI understand your task better.</p></div>
             <div className="relative"><div className="absolute inset-0 flex items-center" aria-hidden="true"><div className="w-full border-t border-slate-700" /></div><div className="relative flex justify-center"><span className="bg-slate-900 px-2 text-sm text-slate-400">Step 2: Upload Image</span></div></div>
-            <label htmlFor="file-upload" className="relative block w-full h-64 border-2 border-dashed border-slate-600 rounded-lg p-12 text-center cursor-pointer hover:border-indigo-500 transition-colors"><UploadIcon className="mx-auto h-12 w-12 text-slate-500" /><span className="mt-2 block text-sm font-semibold text-slate-300">Click to upload</span><span className="mt-1 block text-xs text-slate-400">PNG, JPG, GIF up to 10MB</span><input id="file-upload" name="file-upload" type="file" accept='image/*' className="sr-only" onChange={handleFileChange} /></label>
+            <label htmlFor="file-upload" className="relative block w-full h-64 border-2 border-dashed border-slate-600 rounded-lg p-12 text-center cursor-pointer hover:border-indigo-500 transition-colors"><UploadIcon className="mx-auto h-12 w-12 text-slate-500" /><span className="mt-2 block text-sm font-semibold text-slate-300">Click to upload</span><span className="mt-1 block text-xs text-slate-400">PNG, JPG, GIF up to {MAX_UPLOAD_MB}MB</span><input id="file-upload" name="file-upload" type="file" accept='image/*' className="sr-only" onChange={handleFileChange} /></label>
+            <div><label htmlFor="working-resolution" className="block text-sm font-medium text-slate-300 mb-2">Working resolution</label><select id="working-resolution" value={maxWorkingResolution} onChange={(e) => setMaxWorkingResolution(Number(e.target.value))} className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none">{WORKING_RESOLUTION_OPTIONS.map(size => <option key={size} value={size}>Up to {size}px</option>)}</select><p className="text-xs text-slate-500 mt-2">Large images are scaled down to this size for the AI, and results are scaled back up to match your image.</p></div>
             {error && <p className="mt-4 text-center text-red-400">{error}</p>}
           </div></div>
         );
@@ -550,23 +1131,30 @@ function App() {
         return (
             <div className="w-full max-w-5xl flex flex-col items-center gap-6">
                 <h2 className="text-2xl font-bold text-center">Choose Your Tool</h2>
-                <div className="w-full grid grid-cols-1 md:grid-cols-3 gap-6 text-center">
+                <div className="w-full grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 text-center">
                     <ToolButton onClick={() => handleToolSelect('magicFill')} icon={<BrushIcon className="w-12 h-12 mx-auto text-indigo-400" />} title="Magic Fill" description="Replace part of your image by selecting it and providing a prompt." color="indigo" />
                     <ToolButton onClick={() => handleToolSelect('insert')} icon={<PhotoIcon className="w-12 h-12 mx-auto text-teal-400" />} title="Insert Image" description="Add a new object to your image by uploading a second image." color="teal" />
                     <ToolButton onClick={() => handleToolSelect('expand')} icon={<ExpandIcon className="w-12 h-12 mx-auto text-purple-400" />} title="Magic Expand" description="Extend the canvas of your image and let AI fill in the details." color="purple" />
+                    <ToolButton onClick={() => { setError(null); setAppState(AppState.ADJUSTING); }} icon={<AdjustmentsIcon className="w-12 h-12 mx-auto text-amber-400" />} title="Adjust" description="Fix exposure, contrast, colour and sharpness instantly, without AI." color="amber" />
                 </div>
                  <button onClick={handleBackToUpload} className="mt-4 flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors"><BackIcon className="w-4 h-4" /> Change Image</button>
+                {renderHistoryTimeline()}
             </div>
         );
+      case AppState.ADJUSTING:
+        if (!originalImage) return null;
+        return (
+          <div className="w-full max-w-5xl flex flex-col items-center gap-6">
+            <AdjustmentsPanel imageSrc={originalImage.url} mimeType={originalImage.file.type} onApply={handleApplyAdjustments} onCancel={() => setAppState(AppState.TOOL_SELECTION)} />
+            {error && <p className="text-center text-red-400">{error}</p>}
+          </div>
+        );
       case AppState.EXPANDING: {
         if (!originalImage) return null;
         
-        const hasExpanded = Object.values(expandSteps).some(v => v > 0);
-        const totalClicks = Object.values(expandSteps).reduce((sum, val) => sum + val, 0);
-        const isAtLimit = totalClicks >= MAX_EXPANSION_CLICKS;
-
-        const expandedWidth = originalImage.width + (expandSteps.left + expandSteps.right) * expansionStepSize;
-        const expandedHeight = originalImage.height + (expandSteps.top + expandSteps.bottom) * expansionStepSize;
+        const hasExpanded = hasPadding(expandPadding);
+        const { width: expandedWidth, height: expandedHeight } = expandedSize(originalImage.width, originalImage.height, expandPadding);
+        const passCount = planExpandPasses(originalImage.width, originalImage.height, expandPadding).length;
 
         const MAX_VIEWPORT_DIM = 550;
         
@@ -586,14 +1174,20 @@ function App() {
           position: 'absolute',
           width: `${previewImageWidth}px`,
           height: `${previewImageHeight}px`,
-          top: `${expandSteps.top * expansionStepSize * scale}px`,
-          left: `${expandSteps.left * expansionStepSize * scale}px`,
+          top: `${expandPadding.top * scale}px`,
+          left: `${expandPadding.left * scale}px`,
         };
+
+        const EDGE_HANDLES: { side: keyof Padding; className: string }[] = [
+          { side: 'top', className: 'top-0 left-1/2 -translate-x-1/2 -translate-y-1/2 w-12 h-2.5 cursor-ns-resize' },
+          { side: 'bottom', className: 'bottom-0 left-1/2 -translate-x-1/2 translate-y-1/2 w-12 h-2.5 cursor-ns-resize' },
+          { side: 'left', className: 'left-0 top-1/2 -translate-y-1/2 -translate-x-1/2 w-2.5 h-12 cursor-ew-resize' },
+          { side: 'right', className: 'right-0 top-1/2 -translate-y-1/2 translate-x-1/2 w-2.5 h-12 cursor-ew-resize' },
+        ];
         
         const ExpanderButton = ({ direction, icon, className }: { direction: any, icon: React.ReactNode, className: string }) => (
           <button 
             onClick={() => handleExpandClick(direction)} 
-            disabled={isAtLimit}
             className={`z-10 bg-slate-700/80 hover:bg-slate-600 text-white rounded-full w-8 h-8 flex items-center justify-center transition-colors disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed ${className}`}>
             {icon}
           </button>
@@ -610,6 +1204,9 @@ function App() {
                         <div style={canvasStyle} className="relative transition-all duration-300 shadow-lg" >
                           <div className="absolute inset-0" style={{ backgroundSize: '20px 20px', backgroundImage: 'linear-gradient(to right, rgba(255,255,255,0.05) 1px, transparent 1px), linear-gradient(to bottom, rgba(255,255,255,0.05) 1px, transparent 1px)' }}></div>
                           <img src={originalImage.url} alt="Original content" style={imageStyle} className="pointer-events-none transition-all duration-300" />
+                          {EDGE_HANDLES.map(({ side, className }) => (
+                            <div key={side} onPointerDown={(e) => handleExpandHandleDown(e, side, scale)} onPointerMove={handleExpandHandleMove} onPointerUp={handleExpandHandleUp} onPointerCancel={handleExpandHandleUp} title={`Drag to expand ${side}`} className={`absolute z-10 rounded-full bg-purple-400 hover:bg-purple-300 shadow touch-none ${className}`} />
+                          ))}
                         </div>
                         <ExpanderButton direction="top-left" icon={<ArrowUpLeftIcon className="w-5 h-5" />} className="absolute top-4 left-4" />
                         <ExpanderButton direction="top" icon={<ArrowUpIcon className="w-5 h-5" />} className="absolute top-4 left-1/2 -translate-x-1/2" />
@@ -623,9 +1220,25 @@ function App() {
                 </div>
                 <div className="w-full lg:w-96 flex-shrink-0 bg-slate-800 rounded-lg shadow-lg p-6">
                     <h3 className="text-lg font-bold mb-1 text-purple-400">Magic Expand</h3>
-                    <p className="text-sm text-slate-400 mb-4">Click the arrows to add space around your image (max {MAX_EXPANSION_CLICKS} expansions), then describe what the AI should create in the new area.</p>
+                    <p className="text-sm text-slate-400 mb-4">Click the arrows, drag the edge handles or set a size to add space around your image, then describe what the AI should create in the new area.</p>
+                    <div className="space-y-3">
+                      <form onSubmit={(e) => { e.preventDefault(); handleExpandTargetSubmit(); }} className="flex items-end gap-2">
+                        <label className="flex-1 text-xs text-slate-400">Width<input type="number" min={originalImage.width} value={expandTargetSize.width} onChange={(e) => setExpandTargetSize(t => ({ ...t, width: e.target.value }))} className="mt-1 w-full bg-slate-700 border border-slate-600 rounded-md px-2 py-1.5 text-sm text-slate-200 focus:ring-2 focus:ring-purple-500 focus:outline-none" /></label>
+                        <label className="flex-1 text-xs text-slate-400">Height<input type="number" min={originalImage.height} value={expandTargetSize.height} onChange={(e) => setExpandTargetSize(t => ({ ...t, height: e.target.value }))} className="mt-1 w-full bg-slate-700 border border-slate-600 rounded-md px-2 py-1.5 text-sm text-slate-200 focus:ring-2 focus:ring-purple-500 focus:outline-none" /></label>
+                        <button type="submit" className="px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">Set</button>
+                      </form>
+                      <div className="flex flex-wrap gap-2">
+                        {EXPAND_ASPECT_RATIOS.map(ratio => (
+                          <button key={ratio} onClick={() => changeExpandPadding(paddingForAspectRatio(originalImage.width, originalImage.height, ratio))} className="px-2.5 py-1 text-xs font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">{ratio}</button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-slate-500">{originalImage.width} x {originalImage.height} → {expandedWidth} x {expandedHeight}{passCount > 1 && ` in ${passCount} passes`}</p>
+                    </div>
                     <div className="border-t border-slate-700 my-4"></div>
                     <textarea value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder="e.g., a beautiful sunset, a bustling city street" className="w-full h-24 bg-slate-700 border border-slate-600 rounded-md px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:outline-none transition" rows={3} />
+                    {renderPresetPicker('prompt', prompt, setPrompt, 'expand')}
+                    <div className="mt-4"><label htmlFor="expand-seam" className="flex justify-between items-center text-sm font-medium text-slate-300"><span>Seam Blend</span><span>{expandSeam}px</span></label><input id="expand-seam" type="range" min="0" max="64" value={expandSeam} onChange={(e) => setExpandSeam(parseInt(e.target.value, 10))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-purple-500 mt-1" /><p className="text-xs text-slate-500 mt-1">Your original pixels are always kept; this is how far into them the new area fades in.</p></div>
+                    <div className="mt-4">{renderVariationPicker('purple')}</div>
                     <button onClick={handleExpandSubmit} disabled={!prompt || !hasExpanded} className="mt-4 w-full flex items-center justify-center gap-2 px-5 py-2 font-semibold bg-purple-600 text-white rounded-md hover:bg-purple-500 disabled:bg-slate-500 disabled:cursor-not-allowed transition-colors"><SparklesIcon className="w-5 h-5" /> Generate</button>
                     {error && <p className="mt-4 text-center text-red-400">{error}</p>}
                 </div>
@@ -637,46 +1250,113 @@ function App() {
         if (isCropping) {
             return (
                 <ImageCropper 
-                    imageSrc={(uncroppedOriginalImage ?? originalImage)!.url} 
+                    imageSrc={history.entries[getCropBaseIndex()].image.url} 
+                    mimeType={history.entries[getCropBaseIndex()].image.file.type}
                     onCrop={handleSaveCrop}
                     onCancel={() => setIsCropping(false)}
                     onRestore={handleRestoreOriginal}
-                    showRestoreButton={!!uncroppedOriginalImage}
+                    showRestoreButton={getCropBaseIndex() !== history.index}
                 />
             );
         }
 
-        const editorContainerStyle: CSSProperties = isPlacingImage ? { perspective: `${insertImageTransform.perspective}px` } : {};
-        const isReadyForSubmit = (tool === 'magicFill' && !!prompt) || (tool === 'insert' && !!insertImage && !isPlacingImage);
+        const activeLayer = insertLayers.find(layer => layer.id === activeLayerId);
+        const activeTransform = activeLayer?.transform ?? DEFAULT_IMAGE_TRANSFORM;
+        const isReadyForSubmit = (tool === 'magicFill' && !!prompt) || (tool === 'insert' && insertLayers.length > 0 && !isPlacingImage);
         return (
           <div className="w-full max-w-6xl flex flex-col lg:flex-row items-start gap-8">
-            <div ref={editorContainerRef} className="flex-grow w-full relative" style={editorContainerStyle}>
+            <div ref={editorContainerRef} className="flex-grow w-full relative">
               <div className="flex items-center justify-between gap-4 mb-4">
                 <button onClick={handleBackToToolSelection} className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors"><BackIcon className="w-4 h-4" /> Change Tool</button>
                 {(tool === 'magicFill' || tool === 'insert') && (
                     <button onClick={handleStartCropping} className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors"><CropIcon className="w-4 h-4" /> Crop Image</button>
                 )}
               </div>
-              <ImageEditor key={originalImage.url} ref={editorRef} imageSrc={originalImage.url} brushSize={brushSize} />
+              <ImageEditor key={originalImage.url} ref={editorRef} imageSrc={originalImage.url} brushSize={brushSize} mode={maskMode} selectionTool={selectionTool} wandTolerance={wandTolerance} onSubjectClick={(point) => handleSelectSubject({ point })} onMaskHistoryChange={(canUndo, canRedo) => setMaskHistoryState({ canUndo, canRedo })} />
               {renderPlacementUI()}
             </div>
             <div className="w-full lg:w-96 flex-shrink-0 bg-slate-800 rounded-lg shadow-lg">
               {!isSelectionDone ? (<div className="p-6">
-                <h3 className="text-lg font-bold mb-1 text-indigo-400">Step 1: Select Area</h3><p className="text-sm text-slate-400 mb-4">Brush over the area you want to edit.</p><div className="space-y-4"><div className="space-y-2"><label htmlFor="brush-size" className="flex justify-between items-center text-sm font-medium text-slate-300"><span>Brush Size</span><span>{brushSize}px</span></label><div className="flex items-center gap-3"><BrushIcon className="w-5 h-5 text-slate-400 flex-shrink-0" /><input id="brush-size" type="range" min="5" max="100" value={brushSize} onChange={(e) => setBrushSize(parseInt(e.target.value, 10))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" /></div></div><button onClick={() => editorRef.current?.clearMask()} className="w-full px-4 py-2 text-sm font-semibold bg-slate-600 hover:bg-slate-500 rounded-md transition-colors">Clear Selection</button><button onClick={() => { const selection = editorRef.current?.getMaskAsBase64(); if (selection) { setFinalSelection(selection); setIsSelectionDone(true); setError(null); } else { setError("Please select an area before proceeding."); } }} className="w-full px-4 py-2 font-semibold bg-indigo-600 text-white rounded-md hover:bg-indigo-500 transition-colors">Next Step</button></div>
+                <h3 className="text-lg font-bold mb-1 text-indigo-400">Step 1: Select Area</h3><p className="text-sm text-slate-400 mb-4">Brush or draw a shape over the area you want to edit.</p>
+                <div className="space-y-4">
+                  <div className="grid grid-cols-3 gap-2">
+                    {SELECTION_TOOLS.map(({ tool, label }) => (
+                      <button key={tool} onClick={() => setSelectionTool(tool)} className={`px-2 py-1.5 text-xs font-semibold rounded-md transition-colors ${selectionTool === tool ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}>{label}</button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button onClick={() => setMaskMode('paint')} className={`flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold rounded-md transition-colors ${maskMode === 'paint' ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}><BrushIcon className="w-4 h-4" /> {selectionTool === 'brush' ? 'Brush' : 'Add'}</button>
+                    <button onClick={() => setMaskMode('erase')} className={`flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold rounded-md transition-colors ${maskMode === 'erase' ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}><EraserIcon className="w-4 h-4" /> {selectionTool === 'brush' ? 'Eraser' : 'Subtract'}</button>
+                  </div>
+                  {selectionTool === 'polygon' && <p className="text-xs text-slate-500">Click to add points. Click the first point, double-click or press Enter to close; Escape cancels.</p>}
+                  {selectionTool === 'subject' && <div className="space-y-2">
+                    <form onSubmit={(e) => { e.preventDefault(); if (subjectPhrase.trim()) handleSelectSubject({ phrase: subjectPhrase.trim() }); }} className="flex gap-2">
+                      <input type="text" value={subjectPhrase} onChange={(e) => setSubjectPhrase(e.target.value)} placeholder="e.g., the red car" className="flex-grow min-w-0 bg-slate-700 border border-slate-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none" />
+                      <button type="submit" disabled={!subjectPhrase.trim() || isSelectingSubject} className="px-3 py-2 text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-500 rounded-md transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed">Select</button>
+                    </form>
+                    <p className="text-xs text-slate-500">{isSelectingSubject ? 'Finding the subject...' : 'Describe the subject, or click it in the image.'}</p>
+                  </div>}
+                  {selectionTool === 'wand' && <div className="space-y-2"><label htmlFor="wand-tolerance" className="flex justify-between items-center text-sm font-medium text-slate-300"><span>Tolerance</span><span>{wandTolerance}</span></label><input id="wand-tolerance" type="range" min="0" max="128" value={wandTolerance} onChange={(e) => setWandTolerance(parseInt(e.target.value, 10))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" /></div>}
+                  {selectionTool === 'brush' && <div className="space-y-2"><label htmlFor="brush-size" className="flex justify-between items-center text-sm font-medium text-slate-300"><span>Brush Size</span><span>{brushSize}px</span></label><div className="flex items-center gap-3"><BrushIcon className="w-5 h-5 text-slate-400 flex-shrink-0" /><input id="brush-size" type="range" min="5" max="100" value={brushSize} onChange={(e) => setBrushSize(parseInt(e.target.value, 10))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" /></div></div>}
+                  <div className="grid grid-cols-2 gap-2">
+                    <button onClick={() => editorRef.current?.undo()} disabled={!maskHistoryState.canUndo} className="flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed"><UndoIcon className="w-4 h-4" /> Undo</button>
+                    <button onClick={() => editorRef.current?.redo()} disabled={!maskHistoryState.canRedo} className="flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed"><RedoIcon className="w-4 h-4" /> Redo</button>
+                  </div>
+                  <details className="group"><summary className="flex justify-between items-center p-2 text-sm font-medium cursor-pointer list-none hover:bg-slate-700 rounded-md">Refine Selection<ChevronDownIcon className="w-5 h-5 transition-transform duration-300 group-open:rotate-180" /></summary>
+                    <div className="p-2 space-y-3">
+                      <div><label htmlFor="mask-adjust" className="flex justify-between items-center text-sm font-medium text-slate-300"><span>Amount</span><span>{maskAdjustAmount}px</span></label><input id="mask-adjust" type="range" min="1" max="64" value={maskAdjustAmount} onChange={(e) => setMaskAdjustAmount(parseInt(e.target.value, 10))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500 mt-1" /></div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <button onClick={() => editorRef.current?.growMask(maskAdjustAmount)} className="px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">Grow</button>
+                        <button onClick={() => editorRef.current?.shrinkMask(maskAdjustAmount)} className="px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">Shrink</button>
+                        <button onClick={() => editorRef.current?.featherMask(maskAdjustAmount)} className="px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">Feather</button>
+                        <button onClick={() => editorRef.current?.invertMask()} className="px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">Invert</button>
+                      </div>
+                    </div>
+                  </details>
+                  <button onClick={() => editorRef.current?.clearMask()} className="w-full px-4 py-2 text-sm font-semibold bg-slate-600 hover:bg-slate-500 rounded-md transition-colors">Clear Selection</button><button onClick={() => { const selection = editorRef.current?.getMaskAsBase64(); if (selection) { setFinalSelection(selection); setIsSelectionDone(true); setError(null); } else { setError("Please select an area before proceeding."); } }} className="w-full px-4 py-2 font-semibold bg-indigo-600 text-white rounded-md hover:bg-indigo-500 transition-colors">Next Step</button>
+                </div>
               </div>) : isPlacingImage ? (<div className="p-6">
-                <h3 className="text-lg font-bold mb-1 text-teal-400">Step 2: Place Image</h3><p className="text-sm text-slate-400 mb-4">Drag image to position or use sliders for details.</p>
-                <div className="space-y-1"><details className="group" open><summary className="flex justify-between items-center p-2 font-medium cursor-pointer list-none hover:bg-slate-700 rounded-md">Transform<ChevronDownIcon className="w-5 h-5 transition-transform duration-300 group-open:rotate-180" /></summary><div className="p-2 space-y-4">{[{ label: 'X-Position', value: insertImageTransform.x, setter: (v: number) => setInsertImageTransform(t => ({ ...t, x: v })) }, { label: 'Y-Position', value: insertImageTransform.y, setter: (v: number) => setInsertImageTransform(t => ({ ...t, y: v })) }, { label: 'Scale', value: insertImageTransform.scale, setter: (v: number) => setInsertImageTransform(t => ({ ...t, scale: v })), min: 1, max: 200 }, { label: 'Rotation', value: insertImageTransform.rotation, setter: (v: number) => setInsertImageTransform(t => ({ ...t, rotation: v })), min: 0, max: 360 },].map(({ label, value, setter, min = 0, max = 100 }) => (<div key={label}><label className="flex justify-between items-center text-sm font-medium text-slate-300"><span>{label}</span><span>{Math.round(value)}</span></label><input type="range" min={min} max={max} value={value} onChange={e => setter(parseInt(e.target.value, 10))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-teal-500 mt-1" /></div>))}</div></details><details className="group"><summary className="flex justify-between items-center p-2 font-medium cursor-pointer list-none hover:bg-slate-700 rounded-md">Perspective<ChevronDownIcon className="w-5 h-5 transition-transform duration-300 group-open:rotate-180" /></summary><div className="p-2 space-y-4">{[{ label: 'Perspective', value: insertImageTransform.perspective, setter: (v: number) => setInsertImageTransform(t => ({ ...t, perspective: v })), min: 300, max: 2000 }, { label: 'Tilt (Vertical)', value: insertImageTransform.rotateX, setter: (v: number) => setInsertImageTransform(t => ({ ...t, rotateX: v })), min: -90, max: 90 }, { label: 'Tilt (Horizontal)', value: insertImageTransform.rotateY, setter: (v: number) => setInsertImageTransform(t => ({ ...t, rotateY: v })), min: -90, max: 90 },].map(({ label, value, setter, min = 0, max = 100 }) => (<div key={label}><label className="flex justify-between items-center text-sm font-medium text-slate-300"><span>{label}</span><span>{Math.round(value)}</span></label><input type="range" min={min} max={max} value={value} onChange={e => setter(parseInt(e.target.value, 10))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-teal-500 mt-1" /></div>))}</div></details><details className="group" open><summary className="flex justify-between items-center p-2 font-medium cursor-pointer list-none hover:bg-slate-700 rounded-md">Appearance<ChevronDownIcon className="w-5 h-5 transition-transform duration-300 group-open:rotate-180" /></summary><div className="p-2 space-y-4"><div><label className="flex justify-between items-center text-sm font-medium text-slate-300"><span>Opacity</span><span>{Math.round(insertImageTransform.opacity)}</span></label><input type="range" min={0} max={100} value={insertImageTransform.opacity} onChange={e => setInsertImageTransform(t => ({ ...t, opacity: parseInt(e.target.value, 10) }))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-teal-500 mt-1" /></div></div></details></div>
-                <div className="mt-6 space-y-2 p-6 pt-0"><button onClick={() => { setIsPlacingImage(false); handleEditSubmit(); }} className="w-full flex items-center justify-center gap-2 px-5 py-2 font-semibold bg-teal-600 text-white rounded-md hover:bg-teal-500 transition-colors"><SparklesIcon className="w-5 h-5" /> Insert & Blend</button><button onClick={() => { setIsPlacingImage(false); setInsertImage(null); }} className="w-full px-4 py-2 text-sm font-semibold bg-slate-600 hover:bg-slate-500 rounded-md transition-colors">Cancel</button></div>
+                <h3 className="text-lg font-bold mb-1 text-teal-400">Step 2: Place Images</h3><p className="text-sm text-slate-400 mb-4">Drag an image to position it, or select a layer and use the sliders.</p>
+                <div className="mb-4 space-y-2">
+                  <p className="text-sm font-medium text-slate-300">Layers <span className="text-xs text-slate-500">(top first)</span></p>
+                  <ul className="space-y-1">
+                    {insertLayers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => (
+                      <li key={layer.id} onClick={() => selectLayer(layer.id)} className={`flex items-center gap-2 p-1.5 rounded-md cursor-pointer ${layer.id === activeLayerId ? 'bg-teal-900/50 ring-1 ring-teal-500' : 'bg-slate-700 hover:bg-slate-600'}`}>
+                        <img src={layer.url} alt="" className="w-10 h-10 rounded object-contain flex-shrink-0" style={CHECKERBOARD_STYLE} />
+                        <span className="flex-grow min-w-0 truncate text-sm">{layer.file.name}</span>
+                        <button onClick={(e) => { e.stopPropagation(); moveLayer(layer.id, 1); }} disabled={index === insertLayers.length - 1} title="Bring forward" className="p-1 rounded hover:bg-slate-500 disabled:opacity-30 disabled:cursor-not-allowed"><ArrowUpIcon className="w-4 h-4" /></button>
+                        <button onClick={(e) => { e.stopPropagation(); moveLayer(layer.id, -1); }} disabled={index === 0} title="Send backward" className="p-1 rounded hover:bg-slate-500 disabled:opacity-30 disabled:cursor-not-allowed"><ArrowDownIcon className="w-4 h-4" /></button>
+                        <button onClick={(e) => { e.stopPropagation(); removeLayer(layer.id); }} title="Remove layer" className="px-1.5 py-0.5 text-xs font-semibold rounded hover:bg-red-500/30 text-red-300">Remove</button>
+                      </li>
+                    ))}
+                  </ul>
+                  <label htmlFor="insert-layer-upload" className="block w-full px-3 py-1.5 text-sm font-semibold text-center border border-dashed border-slate-600 rounded-md cursor-pointer hover:border-teal-500 transition-colors">+ Add Image<input id="insert-layer-upload" type="file" accept='image/*' className="sr-only" onChange={handleInsertFileChange} /></label>
+                </div>
+                {insertCutout?.layerId === activeLayerId ? (<div className="mb-4 p-3 bg-slate-700 rounded-md space-y-3">
+                  <p className="text-sm font-medium text-slate-300">Cutout preview</p>
+                  <img src={insertCutout.url} alt="Insert with background removed" className="w-full max-h-48 object-contain rounded-md" style={CHECKERBOARD_STYLE} />
+                  <div className="grid grid-cols-2 gap-2">
+                    <button onClick={handleAcceptCutout} className="px-3 py-1.5 text-sm font-semibold bg-teal-600 text-white hover:bg-teal-500 rounded-md transition-colors">Use Cutout</button>
+                    <button onClick={() => setInsertCutout(null)} className="px-3 py-1.5 text-sm font-semibold bg-slate-600 hover:bg-slate-500 rounded-md transition-colors">Discard</button>
+                  </div>
+                </div>) : !activeLayer ? null : activeLayer.hasAlpha ? (
+                  <p className="mb-4 text-xs text-slate-500">The blend area follows this image's transparent background.</p>
+                ) : (<div className="mb-4">
+                  <button onClick={handleRemoveBackground} disabled={isRemovingBackground} className="w-full px-3 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed">{isRemovingBackground ? 'Removing background...' : 'Remove Background'}</button>
+                  <p className="mt-1 text-xs text-slate-500">Opaque images blend their whole rectangle. Remove the background to blend only the subject.</p>
+                </div>)}
+                <div className="space-y-1"><details className="group" open><summary className="flex justify-between items-center p-2 font-medium cursor-pointer list-none hover:bg-slate-700 rounded-md">Transform<ChevronDownIcon className="w-5 h-5 transition-transform duration-300 group-open:rotate-180" /></summary><div className="p-2 space-y-4">{[{ label: 'X-Position', value: activeTransform.x, setter: (v: number) => updateActiveTransform(t => ({ ...t, x: v })) }, { label: 'Y-Position', value: activeTransform.y, setter: (v: number) => updateActiveTransform(t => ({ ...t, y: v })) }, { label: 'Scale', value: activeTransform.scale, setter: (v: number) => updateActiveTransform(t => ({ ...t, scale: v })), min: 1, max: 200 }, { label: 'Rotation', value: activeTransform.rotation, setter: (v: number) => updateActiveTransform(t => ({ ...t, rotation: v })), min: 0, max: 360 },].map(({ label, value, setter, min = 0, max = 100 }) => (<div key={label}><label className="flex justify-between items-center text-sm font-medium text-slate-300"><span>{label}</span><span>{Math.round(value)}</span></label><input type="range" min={min} max={max} value={value} onChange={e => setter(parseInt(e.target.value, 10))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-teal-500 mt-1" /></div>))}</div></details><details className="group"><summary className="flex justify-between items-center p-2 font-medium cursor-pointer list-none hover:bg-slate-700 rounded-md">Perspective<ChevronDownIcon className="w-5 h-5 transition-transform duration-300 group-open:rotate-180" /></summary><div className="p-2 space-y-4">{[{ label: 'Perspective', value: activeTransform.perspective, setter: (v: number) => updateActiveTransform(t => ({ ...t, perspective: v })), min: 300, max: 2000 }, { label: 'Tilt (Vertical)', value: activeTransform.rotateX, setter: (v: number) => updateActiveTransform(t => ({ ...t, rotateX: v })), min: -90, max: 90 }, { label: 'Tilt (Horizontal)', value: activeTransform.rotateY, setter: (v: number) => updateActiveTransform(t => ({ ...t, rotateY: v })), min: -90, max: 90 },].map(({ label, value, setter, min = 0, max = 100 }) => (<div key={label}><label className="flex justify-between items-center text-sm font-medium text-slate-300"><span>{label}</span><span>{Math.round(value)}</span></label><input type="range" min={min} max={max} value={value} onChange={e => setter(parseInt(e.target.value, 10))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-teal-500 mt-1" /></div>))}</div></details><details className="group" open><summary className="flex justify-between items-center p-2 font-medium cursor-pointer list-none hover:bg-slate-700 rounded-md">Appearance<ChevronDownIcon className="w-5 h-5 transition-transform duration-300 group-open:rotate-180" /></summary><div className="p-2 space-y-4"><div><label className="flex justify-between items-center text-sm font-medium text-slate-300"><span>Opacity</span><span>{Math.round(activeTransform.opacity)}</span></label><input type="range" min={0} max={100} value={activeTransform.opacity} onChange={e => updateActiveTransform(t => ({ ...t, opacity: parseInt(e.target.value, 10) }))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-teal-500 mt-1" /></div></div></details></div>
+                <div className="mt-6 space-y-2 p-6 pt-0">{renderVariationPicker('teal')}<button onClick={() => { setIsPlacingImage(false); handleEditSubmit(); }} className="w-full flex items-center justify-center gap-2 px-5 py-2 font-semibold bg-teal-600 text-white rounded-md hover:bg-teal-500 transition-colors"><SparklesIcon className="w-5 h-5" /> Insert & Blend</button><button onClick={() => { setIsPlacingImage(false); setInsertLayers([]); setActiveLayerId(null); setInsertCutout(null); }} className="w-full px-4 py-2 text-sm font-semibold bg-slate-600 hover:bg-slate-500 rounded-md transition-colors">Cancel</button></div>
               </div>) : (<div className="p-6">
                  <h3 className={`text-lg font-bold mb-1 ${tool === 'insert' ? 'text-teal-400' : 'text-indigo-400'}`}>
                     {tool === 'insert' ? 'Step 2: Insert an Image' : 'Step 2: Describe Your Edit'}
                  </h3>
                   <div className="space-y-4">
-                    {tool === 'magicFill' && (<><p className="text-sm text-slate-400 mb-4">Tell the AI what to create in the selected area.</p><textarea value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder="e.g., a photorealistic tiger" className="w-full h-24 bg-slate-700 border border-slate-600 rounded-md px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition" rows={3} /></>)}
+                    {tool === 'magicFill' && (<><p className="text-sm text-slate-400 mb-4">Tell the AI what to create in the selected area.</p><textarea value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder="e.g., a photorealistic tiger" className="w-full h-24 bg-slate-700 border border-slate-600 rounded-md px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition" rows={3} />{renderPresetPicker('prompt', prompt, setPrompt, 'magicFill')}<div><label htmlFor="fill-feather" className="flex justify-between items-center text-sm font-medium text-slate-300"><span>Edge Feather</span><span>{fillFeather}px</span></label><input id="fill-feather" type="range" min="0" max="64" value={fillFeather} onChange={(e) => setFillFeather(parseInt(e.target.value, 10))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500 mt-1" /><p className="text-xs text-slate-500 mt-1">Pixels outside your selection are always kept from the original.</p></div>{renderVariationPicker('indigo')}</>)}
                     {tool === 'insert' && (
                       <>
                         <p className="text-sm text-slate-400 mb-4">Upload the image you want to place.</p>
-                        <div className="space-y-3">{insertImage ? (<div className="bg-slate-700 p-3 rounded-md"><p className="text-sm font-medium text-slate-300 mb-2">Image to Insert:</p><div className="flex items-center gap-3"><img src={insertImage.url} alt="Insert preview" className="w-16 h-16 rounded-md object-cover" /><div className="flex-grow text-sm"><p className="font-semibold text-green-400">Ready to place</p><button onClick={() => setIsPlacingImage(true)} className="text-indigo-400 hover:underline text-xs">Adjust Placement</button></div></div></div>) : (<label htmlFor="insert-file-upload" className="relative block w-full border-2 border-dashed border-slate-600 rounded-lg p-6 text-center cursor-pointer hover:border-teal-500 transition-colors"><UploadIcon className="mx-auto h-8 w-8 text-slate-500" /><span className="mt-2 block text-xs font-semibold text-slate-300">Click to upload image</span><input id="insert-file-upload" name="insert-file-upload" type="file" accept='image/*' className="sr-only" onChange={handleInsertFileChange} /></label>)}</div>
+                        <div className="space-y-3">{insertLayers.length > 0 ? (<div className="bg-slate-700 p-3 rounded-md"><p className="text-sm font-medium text-slate-300 mb-2">{insertLayers.length === 1 ? 'Image to Insert:' : 'Images to Insert:'}</p><div className="flex items-center gap-3"><div className="flex -space-x-6">{insertLayers.map(layer => <img key={layer.id} src={layer.url} alt="Insert preview" className="w-16 h-16 rounded-md object-cover ring-2 ring-slate-700" />)}</div><div className="flex-grow text-sm"><p className="font-semibold text-green-400">Ready to place</p><button onClick={() => setIsPlacingImage(true)} className="text-indigo-400 hover:underline text-xs">Adjust Placement</button></div></div></div>) : (<label htmlFor="insert-file-upload" className="relative block w-full border-2 border-dashed border-slate-600 rounded-lg p-6 text-center cursor-pointer hover:border-teal-500 transition-colors"><UploadIcon className="mx-auto h-8 w-8 text-slate-500" /><span className="mt-2 block text-xs font-semibold text-slate-300">Click to upload image</span><input id="insert-file-upload" name="insert-file-upload" type="file" accept='image/*' className="sr-only" onChange={handleInsertFileChange} /></label>)}</div>
                       </>
                     )}
                     <button onClick={handleEditSubmit} disabled={!isReadyForSubmit} className="w-full flex items-center justify-center gap-2 px-5 py-2 font-semibold bg-indigo-600 text-white rounded-md hover:bg-indigo-500 disabled:bg-slate-500 disabled:cursor-not-allowed transition-colors"><SparklesIcon className="w-5 h-5" /> {tool === 'insert' ? 'Set Placement' : 'Generate'}</button>
@@ -687,29 +1367,44 @@ function App() {
           </div>
         );
       }
-      case AppState.LOADING: return <Loader message={loadingMessage} />;
-      case AppState.RESULT:
+      case AppState.BATCH:
+        return <BatchMode systemContext={systemContext} maxWorkingResolution={maxWorkingResolution} fillFeather={fillFeather} expandSeam={expandSeam} maxUploadMb={MAX_UPLOAD_MB} onBack={() => setAppState(AppState.HOME)} />;
+      case AppState.LOADING: return <Loader message={loadingMessage} stage={progress.stage} stageDetail={progress.detail} startedAt={progress.startedAt} onCancel={handleCancelRequest} />;
+      case AppState.RESULT: {
+        const rawResultUrl = resultData?.rawCandidates?.[resultData.candidates.indexOf(resultData.url)];
+        const displayedResultUrl = showRawResult && rawResultUrl ? rawResultUrl : resultData?.url;
         return (
           <div className="w-full max-w-4xl flex flex-col items-center gap-8">
             <h2 className="text-2xl font-bold text-center">{originalImage ? "Your Edited Image" : "Your Generated Image"}</h2>
             {originalImage ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 w-full">
-                <div className="flex flex-col items-center"><h3 className="text-lg font-semibold text-slate-400 mb-2">Original</h3><img src={uncroppedOriginalImage?.url ?? originalImage.url} alt="Original" className="rounded-lg shadow-lg w-full object-contain" /></div>
-                <div className="flex flex-col items-center"><h3 className="text-lg font-semibold text-slate-400 mb-2">Edited</h3><div className="relative group w-full">{resultData?.url && <img src={resultData.url} alt="Edited" className="rounded-lg shadow-lg w-full object-contain" />}<a href={resultData?.url} download={`edited-${originalImage.file.name}`} className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded-lg cursor-pointer" aria-label="Download edited image"><DownloadIcon className="w-10 h-10 text-white" /></a></div></div>
+              <div className="w-full flex flex-col items-center">
+                {displayedResultUrl && (
+                  <ResultComparison
+                    beforeUrl={previousImage?.url ?? originalImage.url}
+                    afterUrl={displayedResultUrl}
+                    afterLabel={showRawResult ? 'Raw Model Output' : 'Edited'}
+                    downloadName={`edited-${originalImage.file.name}`}
+                    beforeOffset={tool === 'expand' ? { left: expandPadding.left, top: expandPadding.top } : undefined}
+                  />
+                )}
+                {rawResultUrl && (<label className="mt-3 flex items-center gap-2 text-sm text-slate-300 cursor-pointer"><input type="checkbox" checked={showRawResult} onChange={(e) => setShowRawResult(e.target.checked)} className="accent-indigo-500" /> Show raw model output</label>)}
               </div>
             ) : (
-              <div className="w-full max-w-lg"><div className="relative group">{resultData?.url && <img src={resultData.url} alt="Generated" className="rounded-lg shadow-lg w-full object-contain" />}<a href={resultData?.url} download={`generated-image.png`} className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded-lg cursor-pointer" aria-label="Download generated image"><DownloadIcon className="w-10 h-10 text-white" /></a></div></div>
+              <div className="w-full max-w-lg"><div className="relative group">{resultData?.url && <img src={resultData.url} alt="Generated" className="rounded-lg shadow-lg w-full object-contain" />}<a href={resultData?.url} download={`generated-image.${generatedExtension}`} className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded-lg cursor-pointer" aria-label="Download generated image"><DownloadIcon className="w-10 h-10 text-white" /></a></div></div>
             )}
+            {renderCandidateGrid()}
             {(tool === 'magicFill' || tool === 'expand' || generationPrompt) && (
               <p className="text-center text-slate-300 bg-slate-800 p-3 rounded-md max-w-xl"><span className="font-semibold">Prompt:</span> {originalImage ? prompt : generationPrompt}</p>
             )}
             <div className="flex flex-wrap justify-center gap-4">
-              {resultData && (<a href={resultData.url} download={`result-${originalImage?.file.name || 'image.png'}`} className="flex items-center gap-2 px-6 py-2 font-semibold bg-green-600 text-white rounded-md hover:bg-green-500 transition-colors"><DownloadIcon className="w-5 h-5" /> Download</a>)}
-              {originalImage ? (<><button onClick={() => handleImageResultForEditing(resultData!.url, `edited-${originalImage.file.name}`)} className="flex items-center gap-2 px-6 py-2 font-semibold bg-purple-600 text-white rounded-md hover:bg-purple-500 transition-colors"><SparklesIcon className="w-5 h-5" /> Continue Editing</button><button onClick={handleEditAgain} className="px-6 py-2 font-semibold bg-slate-600 text-white rounded-md hover:bg-slate-500 transition-colors">Edit Original Again</button></>) : (<button onClick={() => handleImageResultForEditing(resultData!.url, 'generated-image.png')} className="flex items-center gap-2 px-6 py-2 font-semibold bg-purple-600 text-white rounded-md hover:bg-purple-500 transition-colors"><BrushIcon className="w-5 h-5" /> Edit This Image</button>)}
+              {resultData && (<button onClick={() => setIsExportOpen(true)} className="flex items-center gap-2 px-6 py-2 font-semibold bg-green-600 text-white rounded-md hover:bg-green-500 transition-colors"><DownloadIcon className="w-5 h-5" /> Export</button>)}
+              {originalImage ? (<><button onClick={handleContinueEditing} className="flex items-center gap-2 px-6 py-2 font-semibold bg-purple-600 text-white rounded-md hover:bg-purple-500 transition-colors"><SparklesIcon className="w-5 h-5" /> Continue Editing</button><button onClick={handleEditAgain} className="px-6 py-2 font-semibold bg-slate-600 text-white rounded-md hover:bg-slate-500 transition-colors">Edit Original Again</button></>) : (<button onClick={() => handleImageResultForEditing(resultData!.url, `generated-image.${generatedExtension}`)} className="flex items-center gap-2 px-6 py-2 font-semibold bg-purple-600 text-white rounded-md hover:bg-purple-500 transition-colors"><BrushIcon className="w-5 h-5" /> Edit This Image</button>)}
               <button onClick={handleReset} className="px-6 py-2 font-semibold bg-indigo-600 text-white rounded-md hover:bg-indigo-500 transition-colors">Start Over</button>
             </div>
+            {renderHistoryTimeline()}
           </div>
         );
+      }
       default: return null;
     }
   };
@@ -717,7 +1412,12 @@ function App() {
   return (
     <div className="min-h-screen w-full flex flex-col items-center p-4 md:p-8">
       <header className="w-full max-w-6xl mx-auto flex justify-between items-center mb-10">
-        <div className="w-24 flex-shrink-0"></div>
+        <div className="w-24 flex-shrink-0">
+            <button onClick={() => setIsSettingsOpen(true)} className="flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-slate-700 text-white rounded-md hover:bg-slate-600 transition-colors" aria-label="Open settings">
+                <SettingsIcon className="w-5 h-5" />
+                <span className="hidden sm:inline">Settings</span>
+            </button>
+        </div>
         <div className="flex-1 text-center">
             <h1 className="text-3xl sm:text-4xl md:text-5xl font-bold tracking-tight">Banana <span className="text-indigo-400">Brush</span></h1>
             <p className="mt-2 sm:mt-3 text-base sm:text-lg text-slate-400 max-w-2xl mx-auto">Your AI-powered creative studio. Generate a new image from text, or upload your own to edit and transform with AI.</p>
@@ -734,7 +1434,17 @@ function App() {
       <main className={`flex-grow w-full ${getMainClasses(appState)}`}>
         {renderContent()}
       </main>
-      <footer className="text-center mt-auto pt-8 text-slate-500 text-sm">Powered by Gemini</footer>
+      {isExportOpen && resultData && (
+        <ExportDialog
+          imageUrl={resultData.url}
+          sourceName={originalImage?.file.name ?? 'generated-image'}
+          metadata={resultMetadata()}
+          maskUrl={tool === 'magicFill' && finalSelection ? toDataUrl('image/png', finalSelection) : null}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+      {isSettingsOpen && <SettingsPanel settings={runtimeSettings} onSave={handleSaveSettings} onClose={() => setIsSettingsOpen(false)} />}
+      <footer className="text-center mt-auto pt-8 text-slate-500 text-sm">{getImageProvider().name === 'mock' ? 'Running offline with the mock image provider' : 'Powered by Gemini'}</footer>
     </div>
   );
 }
@@ -0,0 +1,126 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Adjustments, DEFAULT_ADJUSTMENTS, renderAdjustments, isNeutralAdjustment } from '../utils/adjust';
+import { loadImage, fitWithin } from '../utils/image';
+import { BackIcon, CheckIcon } from './icons/Icons';
+
+interface AdjustmentsPanelProps {
+  imageSrc: string;
+  // The source format, which the adjusted image keeps when the browser can encode it.
+  mimeType?: string;
+  onApply: (dataUrl: string) => void;
+  onCancel: () => void;
+}
+
+const SLIDERS: { key: keyof Adjustments; label: string; min: number; max: number; step: number; format: (value: number) => string }[] = [
+  { key: 'exposure', label: 'Exposure', min: -2, max: 2, step: 0.05, format: v => `${v > 0 ? '+' : ''}${v.toFixed(2)} EV` },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1, format: v => `${v}` },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1, format: v => `${v}` },
+  { key: 'temperature', label: 'Temperature', min: -100, max: 100, step: 1, format: v => `${v}` },
+  { key: 'tint', label: 'Tint', min: -100, max: 100, step: 1, format: v => `${v}` },
+  { key: 'sharpen', label: 'Sharpen', min: 0, max: 100, step: 1, format: v => `${v}` },
+];
+
+const OUTPUT_FORMATS = ['image/png', 'image/jpeg', 'image/webp'];
+
+// The live preview works on a smaller copy; the full image is only processed on apply.
+const PREVIEW_SIZE = 1024;
+
+const AdjustmentsPanel: React.FC<AdjustmentsPanelProps> = ({ imageSrc, mimeType, onApply, onCancel }) => {
+  const [adjustments, setAdjustments] = useState<Adjustments>(DEFAULT_ADJUSTMENTS);
+  const [preview, setPreview] = useState<{ width: number; height: number } | null>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageSrc).then(image => {
+      if (cancelled) return;
+      imageRef.current = image;
+      setPreview(fitWithin(image.naturalWidth, image.naturalHeight, PREVIEW_SIZE));
+    }).catch(err => {
+      console.error("Could not load the image to adjust:", err);
+      if (!cancelled) setError("Could not load the image to adjust.");
+    });
+    return () => { cancelled = true; };
+  }, [imageSrc]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    const image = imageRef.current;
+    if (!canvas || !ctx || !image || !preview) return;
+    // Sharpening finishes asynchronously, so a slower earlier render mustn't overwrite a newer one.
+    let cancelled = false;
+    renderAdjustments(image, preview.width, preview.height, showOriginal ? DEFAULT_ADJUSTMENTS : adjustments).then(rendered => {
+      if (cancelled) return;
+      canvas.width = preview.width;
+      canvas.height = preview.height;
+      ctx.drawImage(rendered, 0, 0);
+    }).catch(err => console.error("Could not preview the adjustments:", err));
+    return () => { cancelled = true; };
+  }, [preview, adjustments, showOriginal]);
+
+  const handleApply = async () => {
+    const image = imageRef.current;
+    if (!image) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      const adjusted = await renderAdjustments(image, image.naturalWidth, image.naturalHeight, adjustments);
+      onApply(adjusted.toDataURL(mimeType && OUTPUT_FORMATS.includes(mimeType) ? mimeType : 'image/png'));
+    } catch (err) {
+      console.error("Could not apply the adjustments:", err);
+      setError(err instanceof Error ? err.message : "Could not apply the adjustments.");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const isNeutral = isNeutralAdjustment(adjustments);
+
+  return (
+    <div className="w-full max-w-5xl flex flex-col items-center gap-6">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold">Adjust</h2>
+        <p className="text-slate-400 mt-1">Fix exposure, colour and sharpness locally, without using the AI.</p>
+      </div>
+
+      <div className="w-full flex flex-col lg:flex-row items-start gap-6">
+        <div className="relative flex-grow w-full rounded-lg overflow-hidden" style={{ lineHeight: 0 }}>
+          <canvas ref={canvasRef} className="w-full h-auto" aria-label="Adjusted preview" />
+          {!preview && <p className="py-24 text-center text-slate-400" style={{ lineHeight: 'normal' }}>Loading image...</p>}
+          {showOriginal && <span className="absolute top-2 left-2 px-2 py-0.5 text-xs font-semibold bg-black/60 rounded" style={{ lineHeight: 'normal' }}>Original</span>}
+        </div>
+
+        <div className="w-full lg:w-72 flex-shrink-0 space-y-4 bg-slate-800/50 p-4 rounded-lg">
+          {SLIDERS.map(({ key, label, min, max, step, format }) => (
+            <div key={key}>
+              <label htmlFor={`adjust-${key}`} className="flex justify-between text-sm font-medium text-slate-300 mb-1"><span>{label}</span><span className="text-slate-400">{format(adjustments[key])}</span></label>
+              <input id={`adjust-${key}`} type="range" min={min} max={max} step={step} value={adjustments[key]} onChange={(e) => setAdjustments(a => ({ ...a, [key]: Number(e.target.value) }))} onDoubleClick={() => setAdjustments(a => ({ ...a, [key]: DEFAULT_ADJUSTMENTS[key] }))} className="w-full accent-indigo-500" />
+            </div>
+          ))}
+          <p className="text-xs text-slate-500">Double-click a slider to reset it.</p>
+          <div className="grid grid-cols-2 gap-2">
+            <button onPointerDown={() => setShowOriginal(true)} onPointerUp={() => setShowOriginal(false)} onPointerLeave={() => setShowOriginal(false)} className="px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors select-none">Hold to Compare</button>
+            <button onClick={() => setAdjustments(DEFAULT_ADJUSTMENTS)} disabled={isNeutral} className="px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Reset</button>
+          </div>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400 break-words">{error}</p>}
+
+      <div className="flex flex-wrap justify-center items-center gap-4">
+        <button onClick={onCancel} className="flex items-center gap-2 px-6 py-2 font-semibold bg-slate-600 text-white rounded-md hover:bg-slate-500 transition-colors"><BackIcon className="w-5 h-5" /> Cancel</button>
+        <button onClick={handleApply} disabled={isNeutral || !preview || isApplying} className="flex items-center gap-2 px-6 py-2 font-semibold bg-green-600 text-white rounded-md hover:bg-green-500 disabled:bg-slate-500 disabled:cursor-not-allowed transition-colors">
+          <CheckIcon className="w-5 h-5" />
+          {isApplying ? 'Applying...' : 'Apply Adjustments'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AdjustmentsPanel;
@@ -0,0 +1,265 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { BatchItem, BatchItemStatus, BatchTool, ProgressStage } from '../types';
+import { runBatchOperation, runQueue, createBatchArchive, BatchOperation } from '../services/batch';
+import { describeError, throwIfAborted, CancelledError } from '../services/errors';
+import { loadImage, hasPadding, Padding } from '../utils/image';
+import ImageEditor, { ImageEditorRef } from './ImageEditor';
+import { UploadIcon, SparklesIcon, DownloadIcon, BackIcon, BrushIcon, ExpandIcon, PhotoIcon } from './icons/Icons';
+
+interface BatchModeProps {
+  systemContext: string;
+  maxWorkingResolution: number;
+  fillFeather: number;
+  expandSeam: number;
+  maxUploadMb: number;
+  onBack: () => void;
+}
+
+const TOOLS: { id: BatchTool; label: string; icon: React.ReactNode; description: string }[] = [
+  { id: 'magicFill', label: 'Magic Fill', icon: <BrushIcon className="w-4 h-4" />, description: 'Paint one mask on the first image. It is scaled onto every image.' },
+  { id: 'expand', label: 'Expand', icon: <ExpandIcon className="w-4 h-4" />, description: 'Extend every image by the same share of its width and height.' },
+  { id: 'instruction', label: 'Instruction', icon: <PhotoIcon className="w-4 h-4" />, description: 'Apply the prompt to each whole image.' },
+];
+
+const STATUS_STYLES: Record<BatchItemStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-slate-600 text-slate-200' },
+  running: { label: 'Working', className: 'bg-indigo-600 text-white' },
+  done: { label: 'Done', className: 'bg-green-600 text-white' },
+  failed: { label: 'Failed', className: 'bg-red-600 text-white' },
+  cancelled: { label: 'Cancelled', className: 'bg-slate-600 text-slate-300' },
+};
+
+const STAGE_LABELS: Record<ProgressStage, string> = {
+  preparing: 'preparing',
+  waiting: 'waiting for the model',
+  retrying: 'retrying',
+  'post-processing': 'post-processing',
+};
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const readImageFile = (file: File): Promise<BatchItem> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = async () => {
+      try {
+        const url = reader.result as string;
+        const image = await loadImage(url);
+        resolve({ id: crypto.randomUUID(), image: { url, file, width: image.naturalWidth, height: image.naturalHeight }, status: 'queued' });
+      } catch (err) {
+        reject(err);
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+const BatchMode: React.FC<BatchModeProps> = ({ systemContext, maxWorkingResolution, fillFeather, expandSeam, maxUploadMb, onBack }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [tool, setTool] = useState<BatchTool>('instruction');
+  const [prompt, setPrompt] = useState('');
+  const [padding, setPadding] = useState<Padding>({ top: 0, right: 50, bottom: 0, left: 50 });
+  const [concurrency, setConcurrency] = useState(2);
+  const [brushSize, setBrushSize] = useState(30);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const editorRef = useRef<ImageEditorRef>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Leaving batch mode cancels whatever is still in flight.
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const handleFilesChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []);
+    e.target.value = '';
+    const images = files.filter(file => file.type.startsWith('image/'));
+    const accepted = images.filter(file => file.size <= maxUploadMb * 1024 * 1024);
+    const tooLarge = images.length - accepted.length;
+    const loaded = await Promise.allSettled(accepted.map(readImageFile));
+    const newItems = loaded.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const unreadable = files.length - images.length + loaded.length - newItems.length;
+    const count = (n: number) => `${n} file${n === 1 ? ' was' : 's were'}`;
+    const problems = [
+      tooLarge > 0 && `${count(tooLarge)} larger than ${maxUploadMb}MB.`,
+      unreadable > 0 && `${count(unreadable)} not ${unreadable === 1 ? 'an image' : 'images'} or could not be read.`,
+    ].filter(Boolean);
+    setItems(prev => [...prev, ...newItems]);
+    setError(problems.length > 0 ? `Some files were skipped: ${problems.join(' ')}` : null);
+  };
+
+  const buildOperation = (): BatchOperation | null => {
+    if (!prompt.trim()) {
+      setError('Please enter a prompt to apply to every image.');
+      return null;
+    }
+    if (tool === 'magicFill') {
+      const maskBase64 = editorRef.current?.getMaskAsBase64();
+      if (!maskBase64) {
+        setError('Please paint the area to edit on the first image.');
+        return null;
+      }
+      return { tool, prompt, maskBase64, featherPixels: fillFeather };
+    }
+    if (tool === 'expand') {
+      if (!hasPadding(padding)) {
+        setError('Please choose how far to expand at least one side.');
+        return null;
+      }
+      return { tool, prompt, padding, seamPixels: expandSeam };
+    }
+    return { tool, prompt };
+  };
+
+  const runItems = async (targets: BatchItem[]) => {
+    const operation = buildOperation();
+    if (!operation || targets.length === 0) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setIsRunning(true);
+    const targetIds = new Set(targets.map(item => item.id));
+    setItems(prev => prev.map(item => targetIds.has(item.id) ? { ...item, status: 'queued', stage: undefined, error: undefined, resultUrl: undefined } : item));
+
+    await runQueue(targets, concurrency, async item => {
+      updateItem(item.id, { status: 'running', stage: 'preparing' });
+      try {
+        const resultUrl = await runBatchOperation(item.image, operation, {
+          maxWorkingResolution,
+          systemContext,
+          signal: controller.signal,
+          onProgress: stage => { if (!controller.signal.aborted) updateItem(item.id, { stage }); },
+        });
+        throwIfAborted(controller.signal);
+        updateItem(item.id, { status: 'done', stage: undefined, resultUrl });
+      } catch (err) {
+        if (err instanceof CancelledError) updateItem(item.id, { status: 'cancelled', stage: undefined });
+        else updateItem(item.id, { status: 'failed', stage: undefined, error: describeError(err) });
+      }
+    }, controller.signal);
+
+    // Items the queue never reached were cancelled too.
+    if (controller.signal.aborted) {
+      setItems(prev => prev.map(item => targetIds.has(item.id) && item.status === 'queued' ? { ...item, status: 'cancelled' } : item));
+    }
+    if (controllerRef.current === controller) controllerRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleCancel = () => controllerRef.current?.abort();
+
+  const handleDownloadAll = async () => {
+    try {
+      const results = items.flatMap(item => item.status === 'done' && item.resultUrl ? [{ fileName: item.image.file.name, url: item.resultUrl }] : []);
+      const blob = await createBatchArchive(results);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = 'banana-brush-batch.zip';
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (err) {
+      console.error(err);
+      setError('Could not create the zip file.');
+    }
+  };
+
+  const counts = items.reduce((acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }), { queued: 0, running: 0, done: 0, failed: 0, cancelled: 0 } as Record<BatchItemStatus, number>);
+  const retryable = items.filter(item => item.status === 'failed' || item.status === 'cancelled');
+  const activeTool = TOOLS.find(t => t.id === tool)!;
+
+  return (
+    <div className="w-full max-w-6xl flex flex-col lg:flex-row items-start gap-8">
+      <div className="flex-grow w-full space-y-6">
+        <button onClick={onBack} disabled={isRunning} className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"><BackIcon className="w-4 h-4" /> Back</button>
+        {tool === 'magicFill' && items.length > 0 && (
+          <div>
+            <p className="text-sm text-slate-400 mb-2">Paint the area to edit on <span className="font-semibold text-slate-300">{items[0].image.file.name}</span>. The same area is used for every image.</p>
+            <ImageEditor key={items[0].id} ref={editorRef} imageSrc={items[0].image.url} brushSize={brushSize} />
+          </div>
+        )}
+        <label htmlFor="batch-upload" className={`relative block w-full border-2 border-dashed border-slate-600 rounded-lg p-8 text-center transition-colors ${isRunning ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-indigo-500'}`}>
+          <UploadIcon className="mx-auto h-10 w-10 text-slate-500" />
+          <span className="mt-2 block text-sm font-semibold text-slate-300">Click to add images</span>
+          <span className="mt-1 block text-xs text-slate-400">Select as many as you like, up to {maxUploadMb}MB each</span>
+          <input id="batch-upload" type="file" accept="image/*" multiple disabled={isRunning} className="sr-only" onChange={handleFilesChange} />
+        </label>
+        {items.length > 0 && (
+          <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+            {items.map(item => (
+              <li key={item.id} className="bg-slate-800 border border-slate-700 rounded-lg p-2 flex flex-col gap-2">
+                <div className="relative">
+                  <img src={item.resultUrl ?? item.image.url} alt={item.image.file.name} className="w-full h-32 rounded-md object-contain bg-slate-900" />
+                  <span className={`absolute top-1 left-1 px-2 py-0.5 text-xs font-semibold rounded ${STATUS_STYLES[item.status].className}`}>{STATUS_STYLES[item.status].label}</span>
+                </div>
+                <p className="text-xs font-medium truncate" title={item.image.file.name}>{item.image.file.name}</p>
+                {item.status === 'running' && item.stage && <p className="text-xs text-slate-400">{STAGE_LABELS[item.stage]}...</p>}
+                {item.error && <p className="text-xs text-red-400 line-clamp-3" title={item.error}>{item.error}</p>}
+                <div className="flex gap-3 text-xs">
+                  {item.resultUrl && <a href={item.resultUrl} download={`edited-${item.image.file.name}`} className="flex items-center gap-1 text-indigo-400 hover:underline"><DownloadIcon className="w-3 h-3" />Download</a>}
+                  {!isRunning && <button onClick={() => setItems(prev => prev.filter(other => other.id !== item.id))} className="text-red-400 hover:underline">Remove</button>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="w-full lg:w-96 flex-shrink-0 bg-slate-800 rounded-lg shadow-lg p-6 space-y-4">
+        <h3 className="text-lg font-bold text-indigo-400">Batch Edit</h3>
+        <div className="grid grid-cols-3 gap-2">
+          {TOOLS.map(({ id, label, icon }) => (
+            <button key={id} onClick={() => setTool(id)} disabled={isRunning} className={`flex items-center justify-center gap-1 px-2 py-2 text-xs font-semibold rounded-md transition-colors ${tool === id ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}>{icon}{label}</button>
+          ))}
+        </div>
+        <p className="text-sm text-slate-400">{activeTool.description}</p>
+        <textarea value={prompt} onChange={(e) => setPrompt(e.target.value)} disabled={isRunning} placeholder={tool === 'expand' ? 'e.g., continue the studio backdrop' : 'e.g., replace the background with a white studio backdrop'} className="w-full h-24 bg-slate-700 border border-slate-600 rounded-md px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition" rows={3} />
+        {tool === 'magicFill' && (
+          <div className="space-y-2">
+            <label htmlFor="batch-brush-size" className="flex justify-between items-center text-sm font-medium text-slate-300"><span>Brush Size</span><span>{brushSize}px</span></label>
+            <input id="batch-brush-size" type="range" min="5" max="100" value={brushSize} onChange={(e) => setBrushSize(parseInt(e.target.value, 10))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+            <button onClick={() => editorRef.current?.clearMask()} disabled={isRunning} className="w-full px-4 py-2 text-sm font-semibold bg-slate-600 hover:bg-slate-500 rounded-md transition-colors">Clear Selection</button>
+          </div>
+        )}
+        {tool === 'expand' && (
+          <div className="grid grid-cols-2 gap-3">
+            {(['top', 'right', 'bottom', 'left'] as const).map(side => (
+              <div key={side}>
+                <label htmlFor={`batch-expand-${side}`} className="block text-sm font-medium text-slate-300 mb-1 capitalize">{side} (%)</label>
+                <input id={`batch-expand-${side}`} type="number" min="0" max="200" value={padding[side]} disabled={isRunning} onChange={(e) => setPadding(p => ({ ...p, [side]: Math.max(0, Math.min(200, Number(e.target.value) || 0)) }))} className="w-full bg-slate-700 border border-slate-600 rounded-md px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none" />
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-sm font-medium text-slate-300">Run at once</span>
+          <div className="flex gap-1">
+            {CONCURRENCY_OPTIONS.map(count => (
+              <button key={count} onClick={() => setConcurrency(count)} disabled={isRunning} className={`w-8 h-8 text-sm font-semibold rounded-md transition-colors ${concurrency === count ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}>{count}</button>
+            ))}
+          </div>
+        </div>
+        {isRunning ? (
+          <button onClick={handleCancel} className="w-full px-5 py-2 font-semibold bg-slate-600 text-white rounded-md hover:bg-slate-500 transition-colors">Cancel Batch</button>
+        ) : (
+          <button onClick={() => runItems(items)} disabled={items.length === 0 || !prompt.trim()} className="w-full flex items-center justify-center gap-2 px-5 py-2 font-semibold bg-indigo-600 text-white rounded-md hover:bg-indigo-500 disabled:bg-slate-500 disabled:cursor-not-allowed transition-colors"><SparklesIcon className="w-5 h-5" /> Run on {items.length} image{items.length === 1 ? '' : 's'}</button>
+        )}
+        {items.length > 0 && (
+          <p className="text-sm text-slate-400">{counts.done} done, {counts.failed} failed, {counts.running} running, {counts.queued} queued{counts.cancelled ? `, ${counts.cancelled} cancelled` : ''}</p>
+        )}
+        {!isRunning && retryable.length > 0 && (
+          <button onClick={() => runItems(retryable)} className="w-full px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">Retry {retryable.length} failed</button>
+        )}
+        {counts.done > 0 && (
+          <button onClick={handleDownloadAll} disabled={isRunning} className="w-full flex items-center justify-center gap-2 px-5 py-2 font-semibold bg-green-600 text-white rounded-md hover:bg-green-500 disabled:bg-slate-500 disabled:cursor-not-allowed transition-colors"><DownloadIcon className="w-5 h-5" /> Download {counts.done} as .zip</button>
+        )}
+        {error && <p className="text-center text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default BatchMode;
@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { ExportSettings, ExportFormat, EditMetadata, DEFAULT_EXPORT_SETTINGS, exportExtension, formatExportName, renderExport } from '../utils/export';
+import { loadImage, resizeImage } from '../utils/image';
+import { createZip } from '../utils/zip';
+import { loadLocalSetting, saveLocalSetting } from '../utils/localSettings';
+import { DownloadIcon } from './icons/Icons';
+
+interface ExportDialogProps {
+  imageUrl: string;
+  sourceName: string;
+  metadata: EditMetadata;
+  // The selection the edit was made with, as a data URL.
+  maskUrl?: string | null;
+  onClose: () => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'image/png', label: 'PNG' },
+  { format: 'image/jpeg', label: 'JPEG' },
+  { format: 'image/webp', label: 'WebP' },
+];
+
+const SCALES = [0.25, 0.5, 1, 2];
+
+const download = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ imageUrl, sourceName, metadata, maskUrl, onClose }) => {
+  const [settings, setSettings] = useState<ExportSettings>(() => loadLocalSetting('exportSettings', DEFAULT_EXPORT_SETTINGS));
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadImage(imageUrl).then(image => setSize({ width: image.naturalWidth, height: image.naturalHeight })).catch(() => setSize(null));
+  }, [imageUrl]);
+
+  const update = (changes: Partial<ExportSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveLocalSetting('exportSettings', next);
+  };
+
+  const outputSize = size && { width: Math.max(1, Math.round(size.width * settings.scale)), height: Math.max(1, Math.round(size.height * settings.scale)) };
+  const baseName = formatExportName(settings.filenameTemplate, { name: sourceName, tool: metadata.tool, width: outputSize?.width ?? 0, height: outputSize?.height ?? 0 });
+  const includeMask = settings.includeMask && !!maskUrl;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const image = await renderExport(imageUrl, settings, metadata);
+      const imageName = `${baseName}.${exportExtension(image.type as ExportFormat)}`;
+      if (includeMask && maskUrl && outputSize) {
+        const mask = await (await fetch(await resizeImage(maskUrl, outputSize.width, outputSize.height))).blob();
+        download(createZip([
+          { name: imageName, data: new Uint8Array(await image.arrayBuffer()) },
+          { name: `${baseName}-mask.png`, data: new Uint8Array(await mask.arrayBuffer()) },
+        ]), `${baseName}.zip`);
+      } else {
+        download(image, imageName);
+      }
+      onClose();
+    } catch (err) {
+      console.error("Export failed:", err);
+      setError(err instanceof Error ? err.message : "Could not export the image.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div role="dialog" aria-modal="true" aria-labelledby="export-title" className="w-full max-w-md bg-slate-800 rounded-lg shadow-xl p-6 space-y-5 max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h2 id="export-title" className="text-xl font-bold">Export</h2>
+        <div>
+          <h3 className="text-sm font-medium text-slate-300 mb-2">Format</h3>
+          <div className="grid grid-cols-3 gap-2">
+            {FORMATS.map(({ format, label }) => (
+              <button key={format} type="button" onClick={() => update({ format })} className={`px-3 py-2 text-sm font-semibold rounded-md transition-colors ${settings.format === format ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}>{label}</button>
+            ))}
+          </div>
+        </div>
+        {settings.format !== 'image/png' && (
+          <div>
+            <label htmlFor="export-quality" className="flex justify-between text-sm font-medium text-slate-300 mb-1"><span>Quality</span><span>{settings.quality}</span></label>
+            <input id="export-quality" type="range" min="1" max="100" value={settings.quality} onChange={(e) => update({ quality: Number(e.target.value) })} className="w-full accent-indigo-500" />
+          </div>
+        )}
+        <div>
+          <h3 className="text-sm font-medium text-slate-300 mb-2">Scale</h3>
+          <div className="grid grid-cols-4 gap-2">
+            {SCALES.map(scale => (
+              <button key={scale} type="button" onClick={() => update({ scale })} className={`px-3 py-2 text-sm font-semibold rounded-md transition-colors ${settings.scale === scale ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}>{scale * 100}%</button>
+            ))}
+          </div>
+          {outputSize && <p className="text-xs text-slate-500 mt-1">{outputSize.width} × {outputSize.height} px</p>}
+        </div>
+        <div>
+          <label htmlFor="export-filename" className="block text-sm font-medium text-slate-300 mb-1">File name</label>
+          <input id="export-filename" type="text" value={settings.filenameTemplate} onChange={(e) => update({ filenameTemplate: e.target.value })} placeholder={DEFAULT_EXPORT_SETTINGS.filenameTemplate} className="w-full bg-slate-700 border border-slate-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none" />
+          <p className="text-xs text-slate-500 mt-1 break-all">Use {'{name}'}, {'{tool}'}, {'{date}'}, {'{width}'} and {'{height}'}. Saves as <span className="text-slate-300">{baseName}.{exportExtension(settings.format)}</span></p>
+        </div>
+        <div className="space-y-2">
+          <label className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={settings.embedMetadata} onChange={(e) => update({ embedMetadata: e.target.checked })} className="mt-0.5 accent-indigo-500" />
+            <span>Embed edit details<span className="block text-xs text-slate-500">The tool, prompt, model and goal, stored in the file's metadata.</span></span>
+          </label>
+          {maskUrl && (
+            <label className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={settings.includeMask} onChange={(e) => update({ includeMask: e.target.checked })} className="mt-0.5 accent-indigo-500" />
+              <span>Include selection mask<span className="block text-xs text-slate-500">Downloads a zip with the image and its mask.</span></span>
+            </label>
+          )}
+        </div>
+        {error && <p className="text-sm text-red-400 break-words">{error}</p>}
+        <div className="flex justify-end gap-2 pt-2 border-t border-slate-700">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">Cancel</button>
+          <button type="button" onClick={handleExport} disabled={isExporting} className="flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-green-600 text-white hover:bg-green-500 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"><DownloadIcon className="w-4 h-4" /> {isExporting ? 'Exporting...' : 'Export'}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { HistoryEntry, HistoryStepKind } from '../types';
+import { UndoIcon, RedoIcon } from './icons/Icons';
+
+interface HistoryTimelineProps {
+  entries: HistoryEntry[];
+  currentIndex: number;
+  onSelect: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const STEP_LABELS: Record<HistoryStepKind, string> = {
+  upload: 'Original',
+  generate: 'Generated',
+  crop: 'Crop',
+  adjust: 'Adjust',
+  magicFill: 'Magic Fill',
+  insert: 'Insert',
+  expand: 'Expand',
+};
+
+const HistoryTimeline: React.FC<HistoryTimelineProps> = ({ entries, currentIndex, onSelect, onUndo, onRedo }) => {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="w-full bg-slate-800/50 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-slate-300">History</h3>
+        <div className="flex items-center gap-2">
+          <button onClick={onUndo} disabled={currentIndex <= 0} className="flex items-center gap-1 px-2 py-1 text-xs font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed" aria-label="Undo step"><UndoIcon className="w-4 h-4" /> Undo</button>
+          <button onClick={onRedo} disabled={currentIndex >= entries.length - 1} className="flex items-center gap-1 px-2 py-1 text-xs font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed" aria-label="Redo step"><RedoIcon className="w-4 h-4" /> Redo</button>
+        </div>
+      </div>
+      <ol className="flex gap-3 overflow-x-auto pb-1">
+        {entries.map((entry, index) => (
+          <li key={entry.id} className="flex-shrink-0">
+            <button
+              onClick={() => onSelect(index)}
+              className={`flex flex-col items-center gap-1 rounded-md p-1 transition-colors ${index === currentIndex ? 'bg-indigo-600/40 ring-2 ring-indigo-500' : 'hover:bg-slate-700'} ${index > currentIndex ? 'opacity-50' : ''}`}
+              aria-current={index === currentIndex ? 'step' : undefined}
+            >
+              <img src={entry.image.url} alt={STEP_LABELS[entry.kind]} className="w-16 h-16 rounded object-cover" draggable="false" />
+              <span className="text-xs text-slate-300">{index + 1}. {STEP_LABELS[entry.kind]}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default HistoryTimeline;
@@ -1,5 +1,6 @@
-import React, { useState, useRef, useCallback, CSSProperties, MouseEvent as ReactMouseEvent, TouchEvent as ReactTouchEvent } from 'react';
-import { CheckIcon } from './icons/Icons';
+import React, { useState, useRef, useEffect, useCallback, CSSProperties } from 'react';
+import { loadImage } from '../utils/image';
+import { CheckIcon, UndoIcon, RedoIcon } from './icons/Icons';
 
 interface Crop {
   x: number;
@@ -8,150 +9,380 @@ interface Crop {
   height: number;
 }
 
+// Applied to the source before cropping. `straighten` is a fine rotation in
+// degrees; the image is scaled up just enough that no empty corners show.
+interface CropTransform {
+  quarterTurns: number;
+  flipX: boolean;
+  flipY: boolean;
+  straighten: number;
+}
+
+type AspectPreset = 'free' | '1:1' | '4:5' | '16:9' | 'custom';
+
+type Handle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+type CropDrag =
+  | { mode: 'draw'; startX: number; startY: number; previous: Crop | null }
+  | { mode: 'move' | 'resize'; handle?: Handle; startX: number; startY: number; startCrop: Crop };
+
 interface ImageCropperProps {
   imageSrc: string;
+  // The source format, which the cropped image keeps when the browser can encode it.
+  mimeType?: string;
   onCrop: (dataUrl: string) => void;
   onCancel: () => void;
   onRestore: () => void;
   showRestoreButton: boolean;
 }
 
-const ImageCropper: React.FC<ImageCropperProps> = ({ imageSrc, onCrop, onCancel, onRestore, showRestoreButton }) => {
+const IDENTITY_TRANSFORM: CropTransform = { quarterTurns: 0, flipX: false, flipY: false, straighten: 0 };
+
+const ASPECT_PRESETS: { preset: AspectPreset; label: string }[] = [
+  { preset: 'free', label: 'Free' },
+  { preset: '1:1', label: '1:1' },
+  { preset: '4:5', label: '4:5' },
+  { preset: '16:9', label: '16:9' },
+  { preset: 'custom', label: 'Custom' },
+];
+
+const HANDLES: { handle: Handle; style: CSSProperties; cursor: string }[] = [
+  { handle: 'nw', style: { left: 0, top: 0 }, cursor: 'nwse-resize' },
+  { handle: 'n', style: { left: '50%', top: 0 }, cursor: 'ns-resize' },
+  { handle: 'ne', style: { left: '100%', top: 0 }, cursor: 'nesw-resize' },
+  { handle: 'e', style: { left: '100%', top: '50%' }, cursor: 'ew-resize' },
+  { handle: 'se', style: { left: '100%', top: '100%' }, cursor: 'nwse-resize' },
+  { handle: 's', style: { left: '50%', top: '100%' }, cursor: 'ns-resize' },
+  { handle: 'sw', style: { left: 0, top: '100%' }, cursor: 'nesw-resize' },
+  { handle: 'w', style: { left: 0, top: '50%' }, cursor: 'ew-resize' },
+];
+
+const OUTPUT_FORMATS = ['image/png', 'image/jpeg', 'image/webp'];
+
+// In image pixels; smaller drawn rectangles are treated as accidental clicks.
+const MIN_CROP_SIZE = 8;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const roundCrop = ({ x, y, width, height }: Crop): Crop => ({ x: Math.round(x), y: Math.round(y), width: Math.round(width), height: Math.round(height) });
+
+// How much a width x height image must grow when rotated by `angle` so that it
+// still covers its original frame.
+const straightenScale = (width: number, height: number, angle: number) => {
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  return cos + sin * Math.max(width / height, height / width);
+};
+
+const transformedSize = (image: HTMLImageElement, transform: CropTransform) => transform.quarterTurns % 2 === 1
+  ? { width: image.naturalHeight, height: image.naturalWidth }
+  : { width: image.naturalWidth, height: image.naturalHeight };
+
+const renderTransformed = (canvas: HTMLCanvasElement, image: HTMLImageElement, transform: CropTransform) => {
+  const { width, height } = transformedSize(image, transform);
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const angle = transform.straighten * Math.PI / 180;
+  const scale = straightenScale(width, height, angle);
+  ctx.clearRect(0, 0, width, height);
+  ctx.save();
+  // Straightening and flips act on what is on screen, so they are applied after the quarter turns.
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate(angle);
+  ctx.scale(transform.flipX ? -scale : scale, transform.flipY ? -scale : scale);
+  ctx.rotate(transform.quarterTurns * Math.PI / 2);
+  ctx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+  ctx.restore();
+};
+
+// The largest crop with the given ratio inside the bounds, centred on `centre`.
+const fitAspect = (ratio: number, bounds: { width: number; height: number }, centre: { x: number; y: number }): Crop => {
+  const width = Math.min(bounds.width, bounds.height * ratio);
+  const height = width / ratio;
+  return {
+    x: clamp(centre.x - width / 2, 0, bounds.width - width),
+    y: clamp(centre.y - height / 2, 0, bounds.height - height),
+    width,
+    height,
+  };
+};
+
+// Resizes `start` by dragging `handle` by (dx, dy), keeping the opposite edge
+// or corner in place. With a ratio, edge handles resize around the centre line.
+const resizeCrop = (start: Crop, handle: Handle, dx: number, dy: number, ratio: number | null, bounds: { width: number; height: number }): Crop => {
+  let left = start.x, top = start.y, right = start.x + start.width, bottom = start.y + start.height;
+  if (handle.includes('w')) left = clamp(left + dx, 0, right - MIN_CROP_SIZE);
+  if (handle.includes('e')) right = clamp(right + dx, left + MIN_CROP_SIZE, bounds.width);
+  if (handle.includes('n')) top = clamp(top + dy, 0, bottom - MIN_CROP_SIZE);
+  if (handle.includes('s')) bottom = clamp(bottom + dy, top + MIN_CROP_SIZE, bounds.height);
+  if (!ratio) return { x: left, y: top, width: right - left, height: bottom - top };
+
+  const horizontal = /[ew]/.test(handle);
+  const vertical = /[ns]/.test(handle);
+  let width = right - left;
+  let height = bottom - top;
+  if (horizontal && (!vertical || width / height > ratio)) height = width / ratio;
+  else width = height * ratio;
+
+  const centreX = start.x + start.width / 2;
+  const centreY = start.y + start.height / 2;
+  const maxWidth = handle.includes('w') ? right : handle.includes('e') ? bounds.width - left : 2 * Math.min(centreX, bounds.width - centreX);
+  const maxHeight = handle.includes('n') ? bottom : handle.includes('s') ? bounds.height - top : 2 * Math.min(centreY, bounds.height - centreY);
+  const fit = Math.min(1, maxWidth / width, maxHeight / height);
+  width *= fit;
+  height *= fit;
+  return {
+    x: handle.includes('w') ? right - width : handle.includes('e') ? left : centreX - width / 2,
+    y: handle.includes('n') ? bottom - height : handle.includes('s') ? top : centreY - height / 2,
+    width,
+    height,
+  };
+};
+
+const ImageCropper: React.FC<ImageCropperProps> = ({ imageSrc, mimeType, onCrop, onCancel, onRestore, showRestoreButton }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [transform, setTransform] = useState<CropTransform>(IDENTITY_TRANSFORM);
   const [crop, setCrop] = useState<Crop | null>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const containerRef = useRef<HTMLDivElement>(null);
-  const imageRef = useRef<HTMLImageElement>(null);
-  const startPointRef = useRef<{ x: number; y: number } | null>(null);
-
-  const getCoords = (e: ReactMouseEvent | ReactTouchEvent): { x: number; y: number } | null => {
-    const container = containerRef.current;
-    if (!container) return null;
-    const rect = container.getBoundingClientRect();
-    
-    let clientX, clientY;
-    if ('touches' in e.nativeEvent) {
-      if (e.nativeEvent.touches.length === 0) return null;
-      clientX = e.nativeEvent.touches[0].clientX;
-      clientY = e.nativeEvent.touches[0].clientY;
-    } else {
-      clientX = (e as ReactMouseEvent).clientX;
-      clientY = (e as ReactMouseEvent).clientY;
-    }
+  const [aspect, setAspect] = useState<AspectPreset>('free');
+  const [customAspect, setCustomAspect] = useState({ width: 3, height: 2 });
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<CropDrag | null>(null);
+
+  const size = image ? transformedSize(image, transform) : null;
+  const ratio = aspect === 'free' ? null
+    : aspect === 'custom' ? (customAspect.width > 0 && customAspect.height > 0 ? customAspect.width / customAspect.height : null)
+    : Number(aspect.split(':')[0]) / Number(aspect.split(':')[1]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageSrc).then(loaded => {
+      if (cancelled) return;
+      setImage(loaded);
+      setTransform(IDENTITY_TRANSFORM);
+      setCrop({ x: 0, y: 0, width: loaded.naturalWidth, height: loaded.naturalHeight });
+    }).catch(err => console.error("Could not load the image to crop:", err));
+    return () => { cancelled = true; };
+  }, [imageSrc]);
 
-    return { 
-      x: clientX - rect.left, 
-      y: clientY - rect.top 
+  useEffect(() => {
+    if (image && canvasRef.current) renderTransformed(canvasRef.current, image, transform);
+  }, [image, transform]);
+
+  const fullCrop = useCallback((bounds: { width: number; height: number }): Crop => ratio
+    ? fitAspect(ratio, bounds, { x: bounds.width / 2, y: bounds.height / 2 })
+    : { x: 0, y: 0, width: bounds.width, height: bounds.height }, [ratio]);
+
+  // Re-fits the crop whenever the aspect lock or the bounds change. Fitting a
+  // crop that already fits leaves it as it is.
+  const boundsWidth = size?.width;
+  const boundsHeight = size?.height;
+  useEffect(() => {
+    if (!boundsWidth || !boundsHeight || !ratio) return;
+    const bounds = { width: boundsWidth, height: boundsHeight };
+    setCrop(c => c ? fitAspect(ratio, bounds, { x: c.x + c.width / 2, y: c.y + c.height / 2 }) : fullCrop(bounds));
+  }, [ratio, boundsWidth, boundsHeight, fullCrop]);
+
+  const rotate = (direction: 1 | -1) => {
+    if (!image) return;
+    // With a single flip active the image is mirrored, so a quarter turn goes the other way.
+    const step = transform.flipX !== transform.flipY ? -direction : direction;
+    const next = { ...transform, quarterTurns: (transform.quarterTurns + step + 4) % 4 };
+    setTransform(next);
+    setCrop(fullCrop(transformedSize(image, next)));
+  };
+
+  const flip = (axis: 'x' | 'y') => {
+    if (!size) return;
+    setTransform(t => axis === 'x' ? { ...t, flipX: !t.flipX } : { ...t, flipY: !t.flipY });
+    setCrop(c => c && (axis === 'x' ? { ...c, x: size.width - c.x - c.width } : { ...c, y: size.height - c.y - c.height }));
+  };
+
+  const handleReset = () => {
+    if (!image) return;
+    setTransform(IDENTITY_TRANSFORM);
+    setCrop(fullCrop(transformedSize(image, IDENTITY_TRANSFORM)));
+  };
+
+  const toImagePoint = (e: React.PointerEvent) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !size) return null;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) * size.width / rect.width, 0, size.width),
+      y: clamp((e.clientY - rect.top) * size.height / rect.height, 0, size.height),
     };
   };
 
-  const handleDragStart = (e: ReactMouseEvent | ReactTouchEvent) => {
+  const startDrag = (e: React.PointerEvent, mode: 'draw' | 'move' | 'resize', handle?: Handle) => {
+    const point = toImagePoint(e);
+    if (!point) return;
     e.preventDefault();
-    const coords = getCoords(e);
-    if (coords) {
-      setIsDragging(true);
-      startPointRef.current = coords;
-      setCrop({ x: coords.x, y: coords.y, width: 0, height: 0 });
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    if (mode === 'draw') {
+      dragRef.current = { mode, startX: point.x, startY: point.y, previous: crop };
+      setCrop({ x: point.x, y: point.y, width: 0, height: 0 });
+    } else if (crop) {
+      dragRef.current = { mode, handle, startX: point.x, startY: point.y, startCrop: crop };
     }
   };
 
-  const handleDragMove = (e: ReactMouseEvent | ReactTouchEvent) => {
-    if (!isDragging || !startPointRef.current) return;
-    e.preventDefault();
-    const coords = getCoords(e);
-    if (!coords) return;
-
-    const newX = Math.min(coords.x, startPointRef.current.x);
-    const newY = Math.min(coords.y, startPointRef.current.y);
-    const newWidth = Math.abs(coords.x - startPointRef.current.x);
-    const newHeight = Math.abs(coords.y - startPointRef.current.y);
-    
-    setCrop({ x: newX, y: newY, width: newWidth, height: newHeight });
+  const handleDragMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const point = drag && toImagePoint(e);
+    if (!drag || !point || !size) return;
+    const dx = point.x - drag.startX;
+    const dy = point.y - drag.startY;
+    if (drag.mode === 'draw') {
+      let width = Math.abs(dx);
+      let height = Math.abs(dy);
+      if (ratio) {
+        if (width / Math.max(height, 1) > ratio) height = width / ratio;
+        else width = height * ratio;
+        const maxWidth = dx < 0 ? drag.startX : size.width - drag.startX;
+        const maxHeight = dy < 0 ? drag.startY : size.height - drag.startY;
+        const fit = Math.min(1, maxWidth / Math.max(width, 1), maxHeight / Math.max(height, 1));
+        width *= fit;
+        height *= fit;
+      }
+      setCrop({ x: dx < 0 ? drag.startX - width : drag.startX, y: dy < 0 ? drag.startY - height : drag.startY, width, height });
+    } else if (drag.mode === 'move') {
+      const { startCrop } = drag;
+      setCrop({ ...startCrop, x: clamp(startCrop.x + dx, 0, size.width - startCrop.width), y: clamp(startCrop.y + dy, 0, size.height - startCrop.height) });
+    } else if (drag.handle) {
+      setCrop(resizeCrop(drag.startCrop, drag.handle, dx, dy, ratio, size));
+    }
   };
 
-  const handleDragEnd = (e: ReactMouseEvent | ReactTouchEvent) => {
-    if (!isDragging) return;
-    e.preventDefault();
-    setIsDragging(false);
-    startPointRef.current = null;
-    if (crop && (crop.width < 5 || crop.height < 5)) {
-      setCrop(null); // Discard tiny, likely accidental crops
+  const handleDragEnd = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.mode === 'draw' && crop && (crop.width < MIN_CROP_SIZE || crop.height < MIN_CROP_SIZE)) {
+      setCrop(drag.previous); // Discard tiny, likely accidental crops
     }
   };
-  
-  const handleApplyCrop = useCallback(() => {
-    const image = imageRef.current;
-    if (!image || !crop || crop.width === 0 || crop.height === 0) return;
 
+  // Numeric entry. With an aspect lock, width and height update each other.
+  const handleCropInput = (field: keyof Crop, value: number) => {
+    if (!crop || !size || !Number.isFinite(value)) return;
+    const next = { ...crop, [field]: value };
+    if (field === 'width') {
+      next.width = clamp(value, 1, size.width - crop.x);
+      if (ratio) next.height = next.width / ratio;
+    } else if (field === 'height') {
+      next.height = clamp(value, 1, size.height - crop.y);
+      if (ratio) next.width = next.height * ratio;
+    }
+    const fit = Math.min(1, (size.width - crop.x) / next.width, (size.height - crop.y) / next.height);
+    next.width *= fit;
+    next.height *= fit;
+    next.x = clamp(next.x, 0, size.width - next.width);
+    next.y = clamp(next.y, 0, size.height - next.height);
+    setCrop(next);
+  };
+
+  const handleApplyCrop = useCallback(() => {
+    const source = canvasRef.current;
+    if (!source || !crop || crop.width < 1 || crop.height < 1) return;
+    const { x, y, width, height } = roundCrop(crop);
     const canvas = document.createElement('canvas');
-    const scaleX = image.naturalWidth / image.clientWidth;
-    const scaleY = image.naturalHeight / image.clientHeight;
-    
-    const cropX = crop.x * scaleX;
-    const cropY = crop.y * scaleY;
-    const cropWidth = crop.width * scaleX;
-    const cropHeight = crop.height * scaleY;
-
-    canvas.width = cropWidth;
-    canvas.height = cropHeight;
+    canvas.width = width;
+    canvas.height = height;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
-    
-    ctx.drawImage(
-      image,
-      cropX,
-      cropY,
-      cropWidth,
-      cropHeight,
-      0,
-      0,
-      cropWidth,
-      cropHeight
-    );
-    
-    const base64Image = canvas.toDataURL(image.src.startsWith('data:image/png') ? 'image/png' : 'image/jpeg');
-    onCrop(base64Image);
-  }, [crop, onCrop]);
-  
-  const cropStyle: CSSProperties = crop ? {
-    left: `${crop.x}px`,
-    top: `${crop.y}px`,
-    width: `${crop.width}px`,
-    height: `${crop.height}px`,
+    ctx.drawImage(source, x, y, width, height, 0, 0, width, height);
+    const format = mimeType && OUTPUT_FORMATS.includes(mimeType) ? mimeType : 'image/png';
+    onCrop(canvas.toDataURL(format, 0.95));
+  }, [crop, mimeType, onCrop]);
+
+  const cropStyle: CSSProperties = crop && size ? {
+    left: `${crop.x / size.width * 100}%`,
+    top: `${crop.y / size.height * 100}%`,
+    width: `${crop.width / size.width * 100}%`,
+    height: `${crop.height / size.height * 100}%`,
     boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.7)',
   } : {};
+  const roundedCrop = crop && roundCrop(crop);
 
   return (
-    <div className="w-full max-w-4xl flex flex-col items-center gap-6">
-        <div className="text-center">
-            <h2 className="text-2xl font-bold">Crop Image</h2>
-            <p className="text-slate-400 mt-1">Click and drag on the image to select an area.</p>
+    <div className="w-full max-w-5xl flex flex-col items-center gap-6">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold">Crop Image</h2>
+        <p className="text-slate-400 mt-1">Drag the handles to resize the crop, drag inside it to move it, or drag elsewhere to start a new one.</p>
+      </div>
+
+      <div className="w-full flex flex-col lg:flex-row items-start gap-6">
+        <div
+          className="relative flex-grow w-full touch-none cursor-crosshair select-none rounded-lg overflow-hidden"
+          style={{ lineHeight: 0 }}
+          onPointerDown={(e) => startDrag(e, 'draw')}
+          onPointerMove={handleDragMove}
+          onPointerUp={handleDragEnd}
+          onPointerCancel={handleDragEnd}
+        >
+          <canvas ref={canvasRef} className="w-full h-auto pointer-events-none" aria-label="Image to crop" />
+          {crop && crop.width > 0 && crop.height > 0 && (
+            <div className="absolute border-2 border-white cursor-move" style={cropStyle} onPointerDown={(e) => startDrag(e, 'move')}>
+              {/* Rule-of-thirds guides */}
+              <div className="absolute inset-y-0 left-1/3 w-1/3 border-x border-white/40 pointer-events-none" />
+              <div className="absolute inset-x-0 top-1/3 h-1/3 border-y border-white/40 pointer-events-none" />
+              {HANDLES.map(({ handle, style, cursor }) => (
+                <div key={handle} className="absolute w-3.5 h-3.5 -translate-x-1/2 -translate-y-1/2 bg-white border border-slate-800 rounded-sm" style={{ ...style, cursor }} onPointerDown={(e) => startDrag(e, 'resize', handle)} aria-label={`Resize crop ${handle}`} />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="w-full lg:w-72 flex-shrink-0 space-y-5 bg-slate-800/50 p-4 rounded-lg">
+          <div>
+            <h3 className="text-sm font-medium text-slate-300 mb-2">Aspect Ratio</h3>
+            <div className="grid grid-cols-5 gap-1">
+              {ASPECT_PRESETS.map(({ preset, label }) => (
+                <button key={preset} onClick={() => setAspect(preset)} className={`px-1 py-1.5 text-xs font-semibold rounded-md transition-colors ${aspect === preset ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}>{label}</button>
+              ))}
+            </div>
+            {aspect === 'custom' && (
+              <div className="flex items-center gap-2 mt-2">
+                <input type="number" min="1" value={customAspect.width} onChange={(e) => setCustomAspect(a => ({ ...a, width: Number(e.target.value) }))} className="w-full bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-sm" aria-label="Aspect ratio width" />
+                <span className="text-slate-400">:</span>
+                <input type="number" min="1" value={customAspect.height} onChange={(e) => setCustomAspect(a => ({ ...a, height: Number(e.target.value) }))} className="w-full bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-sm" aria-label="Aspect ratio height" />
+              </div>
+            )}
+          </div>
+
+          {roundedCrop && (
+            <div>
+              <h3 className="text-sm font-medium text-slate-300 mb-2">Crop (pixels)</h3>
+              <div className="grid grid-cols-2 gap-2">
+                {(['x', 'y', 'width', 'height'] as const).map(field => (
+                  <label key={field} className="flex items-center gap-2 text-xs text-slate-400">
+                    <span className="w-4 uppercase">{field[0]}</span>
+                    <input type="number" min="0" value={roundedCrop[field]} onChange={(e) => handleCropInput(field, Number(e.target.value))} className="w-full bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-sm text-white" />
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-slate-300 mb-2">Rotate & Flip</h3>
+            <div className="grid grid-cols-4 gap-1">
+              <button onClick={() => rotate(-1)} className="flex justify-center px-2 py-1.5 bg-slate-700 hover:bg-slate-600 rounded-md transition-colors" aria-label="Rotate 90° left" title="Rotate 90° left"><UndoIcon className="w-4 h-4" /></button>
+              <button onClick={() => rotate(1)} className="flex justify-center px-2 py-1.5 bg-slate-700 hover:bg-slate-600 rounded-md transition-colors" aria-label="Rotate 90° right" title="Rotate 90° right"><RedoIcon className="w-4 h-4" /></button>
+              <button onClick={() => flip('x')} className={`px-2 py-1.5 text-xs font-semibold rounded-md transition-colors ${transform.flipX ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`} title="Flip horizontally">Flip H</button>
+              <button onClick={() => flip('y')} className={`px-2 py-1.5 text-xs font-semibold rounded-md transition-colors ${transform.flipY ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`} title="Flip vertically">Flip V</button>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="straighten-slider" className="flex justify-between text-sm font-medium text-slate-300 mb-1"><span>Straighten</span><span>{transform.straighten.toFixed(1)}°</span></label>
+            <input id="straighten-slider" type="range" min="-45" max="45" step="0.1" value={transform.straighten} onChange={(e) => setTransform(t => ({ ...t, straighten: Number(e.target.value) }))} onDoubleClick={() => setTransform(t => ({ ...t, straighten: 0 }))} className="w-full accent-indigo-500" />
+          </div>
+
+          <button onClick={handleReset} className="w-full px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">Reset</button>
         </div>
-      
-      <div 
-        ref={containerRef} 
-        className="relative w-full max-w-2xl touch-none cursor-crosshair select-none rounded-lg overflow-hidden"
-        style={{lineHeight: 0}}
-        onMouseDown={handleDragStart}
-        onMouseMove={handleDragMove}
-        onMouseUp={handleDragEnd}
-        onMouseLeave={handleDragEnd}
-        onTouchStart={handleDragStart}
-        onTouchMove={handleDragMove}
-        onTouchEnd={handleDragEnd}
-      >
-        <img 
-          ref={imageRef} 
-          src={imageSrc} 
-          alt="Original to crop" 
-          className="w-full h-auto pointer-events-none" 
-          draggable="false"
-        />
-        {crop && crop.width > 0 && crop.height > 0 && (
-          <div 
-            className="absolute border-2 border-dashed border-white"
-            style={cropStyle}
-          />
-        )}
       </div>
 
       <div className="flex flex-wrap justify-center items-center gap-4">
@@ -159,9 +390,9 @@ const ImageCropper: React.FC<ImageCropperProps> = ({ imageSrc, onCrop, onCancel,
         {showRestoreButton && (
           <button onClick={onRestore} className="px-6 py-2 font-semibold bg-amber-600 text-white rounded-md hover:bg-amber-500 transition-colors">Restore Original</button>
         )}
-        <button 
-          onClick={handleApplyCrop} 
-          disabled={!crop || crop.width === 0 || crop.height === 0} 
+        <button
+          onClick={handleApplyCrop}
+          disabled={!crop || crop.width < 1 || crop.height < 1}
           className="flex items-center gap-2 px-6 py-2 font-semibold bg-green-600 text-white rounded-md hover:bg-green-500 disabled:bg-slate-500 disabled:cursor-not-allowed transition-colors"
         >
           <CheckIcon className="w-5 h-5" />
@@ -172,4 +403,4 @@ const ImageCropper: React.FC<ImageCropperProps> = ({ imageSrc, onCrop, onCancel,
   );
 };
 
-export default ImageCropper;
\ No newline at end of file
+export default ImageCropper;
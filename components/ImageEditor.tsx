@@ -1,22 +1,129 @@
 
 import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef } from 'react';
+import { alphaToMask, maskToAlpha, invertMask, growMask, shrinkMask, featherMask, combineMasks, floodFillMask } from '../utils/mask';
+
+// 'paint' adds to the selection and 'erase' subtracts from it, whatever the tool.
+export type MaskMode = 'paint' | 'erase';
+
+// 'subject' doesn't draw; clicks are reported through onSubjectClick instead.
+export type SelectionTool = 'brush' | 'rectangle' | 'ellipse' | 'lasso' | 'polygon' | 'wand' | 'subject';
 
 interface ImageEditorProps {
   imageSrc: string;
   brushSize: number;
+  mode?: MaskMode;
+  selectionTool?: SelectionTool;
+  // How far (0-255 per channel) a colour may be from the clicked one for the magic wand.
+  wandTolerance?: number;
+  onMaskHistoryChange?: (canUndo: boolean, canRedo: boolean) => void;
+  // Called with the clicked point as 0-1 of the image size.
+  onSubjectClick?: (point: { x: number; y: number }) => void;
+}
+
+type Point = { x: number; y: number };
+
+// Clicking within this many screen pixels of the first point closes a polygon.
+const POLYGON_CLOSE_DISTANCE = 10;
+// Screen pixels within which two polygon points count as the same.
+const DUPLICATE_POINT_DISTANCE = 2;
+
+// Zoom and pan of the image inside the editor. x and y are the offset of the
+// image's top-left corner as a fraction of the viewport size, so the view
+// survives the viewport being resized.
+interface ViewTransform {
+  zoom: number;
+  x: number;
+  y: number;
 }
 
+const FIT_VIEW: ViewTransform = { zoom: 1, x: 0, y: 0 };
+const MAX_ZOOM = 16;
+const ZOOM_STEP = 1.5;
+const WHEEL_ZOOM_SPEED = 0.002;
+const MINIMAP_SIZE = 160;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Keeps the zoomed image covering the whole viewport.
+const clampView = ({ zoom, x, y }: ViewTransform): ViewTransform => {
+  const z = clamp(zoom, 1, MAX_ZOOM);
+  return { zoom: z, x: clamp(x, 1 - z, 0), y: clamp(y, 1 - z, 0) };
+};
+
+// Zooms while keeping the image point under (fx, fy), given as fractions of
+// the viewport, in place.
+const zoomAt = (view: ViewTransform, zoom: number, fx: number, fy: number): ViewTransform => {
+  const z = clamp(zoom, 1, MAX_ZOOM);
+  return clampView({ zoom: z, x: fx - (fx - view.x) * z / view.zoom, y: fy - (fy - view.y) * z / view.zoom });
+};
+
+// Space already types into or presses these, so it shouldn't start panning.
+const usesSpace = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName));
+
+const traceShape = (ctx: CanvasRenderingContext2D, tool: SelectionTool, points: Point[], pointer: Point | null) => {
+  const [start] = points;
+  const end = pointer ?? points[points.length - 1];
+  if (!start || !end) return;
+  if (tool === 'rectangle') {
+    ctx.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+  } else if (tool === 'ellipse') {
+    ctx.ellipse((start.x + end.x) / 2, (start.y + end.y) / 2, Math.abs(end.x - start.x) / 2, Math.abs(end.y - start.y) / 2, 0, 0, Math.PI * 2);
+  } else {
+    ctx.moveTo(start.x, start.y);
+    points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    if (pointer) ctx.lineTo(pointer.x, pointer.y);
+  }
+};
+
 export interface ImageEditorRef {
   getMaskAsBase64: () => string;
   clearMask: () => void;
+  undo: () => void;
+  redo: () => void;
+  invertMask: () => void;
+  growMask: (pixels: number) => void;
+  shrinkMask: (pixels: number) => void;
+  featherMask: (pixels: number) => void;
+  // Adds or subtracts a one-byte-per-pixel mask at the image's full size.
+  combineMask: (mask: Uint8ClampedArray, operation: 'add' | 'subtract') => void;
 }
 
-const ImageEditor = forwardRef<ImageEditorRef, ImageEditorProps>(({ imageSrc, brushSize }, ref) => {
+// Snapshots are full-resolution one-byte masks, so each stack is bounded by
+// steps and by bytes; large photos keep fewer steps.
+const MAX_MASK_HISTORY = 30;
+const MAX_MASK_HISTORY_BYTES = 128 * 1024 * 1024;
+
+const pushBounded = (stack: Uint8ClampedArray[], snapshot: Uint8ClampedArray) => {
+  stack.push(snapshot);
+  while (stack.length > 1 && (stack.length > MAX_MASK_HISTORY || stack.length * snapshot.length > MAX_MASK_HISTORY_BYTES)) stack.shift();
+};
+
+const ImageEditor = forwardRef<ImageEditorRef, ImageEditorProps>(({ imageSrc, brushSize, mode = 'paint', selectionTool = 'brush', wandTolerance = 32, onMaskHistoryChange, onSubjectClick }: ImageEditorProps, ref) => {
   const imageCanvasRef = useRef<HTMLCanvasElement>(null);
   const drawingCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Outlines of shapes that are still being drawn.
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const minimapCanvasRef = useRef<HTMLCanvasElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const brushCursorRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<ViewTransform>(FIT_VIEW);
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const isPointerOver = useRef(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const panDrag = useRef<{ clientX: number; clientY: number; view: ViewTransform } | null>(null);
+  const pinch = useRef<{ distance: number; centre: Point; view: ViewTransform } | null>(null);
+  // Whether the current touch started a stroke, shape or polygon point.
+  const touchDrew = useRef(false);
+  const shapePoints = useRef<Point[]>([]);
+  const pointer = useRef<Point | null>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [aspectRatio, setAspectRatio] = useState('auto');
   const lastPoint = useRef<{x: number, y: number} | null>(null);
+  const undoStack = useRef<Uint8ClampedArray[]>([]);
+  const redoStack = useRef<Uint8ClampedArray[]>([]);
 
   const drawImage = () => {
     const image = new Image();
@@ -27,7 +134,8 @@ const ImageEditor = forwardRef<ImageEditorRef, ImageEditorProps>(({ imageSrc, br
       requestAnimationFrame(() => {
         const imageCanvas = imageCanvasRef.current;
         const drawingCanvas = drawingCanvasRef.current;
-        if (imageCanvas && drawingCanvas) {
+        const previewCanvas = previewCanvasRef.current;
+        if (imageCanvas && drawingCanvas && previewCanvas) {
             const width = image.naturalWidth;
             const height = image.naturalHeight;
 
@@ -35,29 +143,41 @@ const ImageEditor = forwardRef<ImageEditorRef, ImageEditorProps>(({ imageSrc, br
             imageCanvas.height = height;
             drawingCanvas.width = width;
             drawingCanvas.height = height;
+            previewCanvas.width = width;
+            previewCanvas.height = height;
+            shapePoints.current = [];
 
             const ctx = imageCanvas.getContext('2d');
             ctx?.drawImage(image, 0, 0, width, height);
+
+            const minimap = minimapCanvasRef.current;
+            if (minimap) {
+              const minimapScale = MINIMAP_SIZE / Math.max(width, height);
+              minimap.width = Math.max(1, Math.round(width * minimapScale));
+              minimap.height = Math.max(1, Math.round(height * minimapScale));
+              minimap.getContext('2d')?.drawImage(image, 0, 0, minimap.width, minimap.height);
+            }
+
+            // Resizing the canvas wiped the mask, so its history no longer applies.
+            undoStack.current = [];
+            redoStack.current = [];
+            notifyHistoryChange();
         }
       });
     };
   };
 
+  // The canvases stay at the image's natural size and the view is kept as
+  // fractions of the viewport, so a window resize needs no redraw (which would
+  // also wipe the mask).
   useEffect(() => {
     drawImage();
-    const debouncedDrawImage = () => {
-        let timeoutId: number;
-        return () => {
-            clearTimeout(timeoutId);
-            timeoutId = window.setTimeout(drawImage, 100);
-        };
-    };
-    const handleResize = debouncedDrawImage();
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
+    setView(FIT_VIEW);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [imageSrc]);
 
+  // The bounding rect includes the zoom and pan transform, so mapping through
+  // it gives image pixels at every zoom level.
   const getCoords = (e: React.MouseEvent | React.TouchEvent): { x: number; y: number } | null => {
     const canvas = drawingCanvasRef.current;
     if (!canvas) return null;
@@ -82,36 +202,399 @@ const ImageEditor = forwardRef<ImageEditorRef, ImageEditorProps>(({ imageSrc, br
     return { x: canvasX, y: canvasY };
   };
 
+  const getDrawingContext = () => drawingCanvasRef.current?.getContext('2d', { willReadFrequently: true }) ?? null;
+
+  const notifyHistoryChange = () => {
+    onMaskHistoryChange?.(undoStack.current.length > 0, redoStack.current.length > 0);
+  };
+
+  const readMask = (canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) => alphaToMask(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+
+  // Records the current mask so the next change can be undone.
+  const pushUndoSnapshot = () => {
+    const canvas = drawingCanvasRef.current;
+    const ctx = getDrawingContext();
+    if (!canvas || !ctx) return;
+    pushBounded(undoStack.current, readMask(canvas, ctx));
+    redoStack.current = [];
+    notifyHistoryChange();
+  };
+
+  const restoreSnapshot = (from: React.MutableRefObject<Uint8ClampedArray[]>, to: React.MutableRefObject<Uint8ClampedArray[]>) => {
+    const canvas = drawingCanvasRef.current;
+    const ctx = getDrawingContext();
+    const snapshot = from.current.pop();
+    if (!canvas || !ctx || !snapshot) return;
+    pushBounded(to.current, readMask(canvas, ctx));
+    ctx.putImageData(new ImageData(maskToAlpha(snapshot), canvas.width, canvas.height), 0, 0);
+    notifyHistoryChange();
+  };
+
+  // Applies a whole-mask operation as a single undoable step.
+  const transformMask = (operation: (mask: Uint8ClampedArray, width: number, height: number) => Uint8ClampedArray) => {
+    const canvas = drawingCanvasRef.current;
+    const ctx = getDrawingContext();
+    if (!canvas || !ctx) return;
+    pushUndoSnapshot();
+    const { width, height } = canvas;
+    const mask = operation(alphaToMask(ctx.getImageData(0, 0, width, height).data), width, height);
+    ctx.putImageData(new ImageData(maskToAlpha(mask), width, height), 0, 0);
+  };
+
+  // Canvas pixels per screen pixel, for sizes given in screen pixels. Brush
+  // sizes stay the same on screen, so zooming in paints finer detail.
+  const getDisplayScale = () => {
+    const canvas = drawingCanvasRef.current;
+    return canvas ? canvas.width / canvas.getBoundingClientRect().width : 1;
+  };
+
+  const drawPreview = () => {
+    const canvas = previewCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (shapePoints.current.length === 0) return;
+    const scale = getDisplayScale();
+    ctx.save();
+    ctx.beginPath();
+    traceShape(ctx, selectionTool, shapePoints.current, selectionTool === 'lasso' ? null : pointer.current);
+    if (selectionTool === 'lasso') ctx.closePath();
+    ctx.lineWidth = 1.5 * scale;
+    ctx.setLineDash([6 * scale, 4 * scale]);
+    ctx.strokeStyle = mode === 'erase' ? '#f87171' : '#818cf8';
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  const resetShape = () => {
+    shapePoints.current = [];
+    drawPreview();
+  };
+
+  // Fills the finished shape into the mask as one undoable step.
+  const commitShape = () => {
+    const ctx = getDrawingContext();
+    const points = shapePoints.current;
+    const isArea = selectionTool === 'rectangle' || selectionTool === 'ellipse' ? !!pointer.current : points.length >= 3;
+    if (ctx && isArea) {
+      pushUndoSnapshot();
+      ctx.save();
+      ctx.globalCompositeOperation = mode === 'erase' ? 'destination-out' : 'source-over';
+      ctx.fillStyle = 'rgba(255, 255, 255, 1)';
+      ctx.beginPath();
+      traceShape(ctx, selectionTool, points, selectionTool === 'rectangle' || selectionTool === 'ellipse' ? pointer.current : null);
+      ctx.closePath();
+      ctx.fill();
+      ctx.restore();
+    }
+    resetShape();
+  };
+
+  const selectSimilarColour = (coords: Point) => {
+    const imageCanvas = imageCanvasRef.current;
+    const imageCtx = imageCanvas?.getContext('2d', { willReadFrequently: true });
+    if (!imageCanvas || !imageCtx) return;
+    const { width, height } = imageCanvas;
+    const region = floodFillMask(imageCtx.getImageData(0, 0, width, height).data, width, height, coords.x, coords.y, wandTolerance);
+    transformMask(mask => combineMasks(mask, region, mode === 'erase' ? 'subtract' : 'add'));
+  };
+
+  const addPolygonPoint = (coords: Point) => {
+    const points = shapePoints.current;
+    const first = points[0];
+    if (first && points.length >= 3 && Math.hypot(coords.x - first.x, coords.y - first.y) <= POLYGON_CLOSE_DISTANCE * getDisplayScale()) {
+      commitShape();
+      return;
+    }
+    points.push(coords);
+    drawPreview();
+  };
+
+  // A double-click's two clicks both add a point, so the second one is dropped.
+  const finishPolygon = () => {
+    const points = shapePoints.current;
+    const [previous, last] = points.slice(-2);
+    if (previous && last && Math.hypot(last.x - previous.x, last.y - previous.y) <= DUPLICATE_POINT_DISTANCE * getDisplayScale()) points.pop();
+    commitShape();
+  };
+
+  // A new tool never inherits a half-drawn shape.
+  useEffect(() => {
+    resetShape();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectionTool]);
+
+  useEffect(() => {
+    if (selectionTool !== 'polygon') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (shapePoints.current.length === 0) return;
+      if (e.key === 'Enter') commitShape();
+      else if (e.key === 'Escape') resetShape();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      // At fit, scrolling down is left to the page.
+      if (viewRef.current.zoom <= 1 && e.deltaY > 0 && !e.ctrlKey) return;
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      const fx = (e.clientX - rect.left) / rect.width;
+      const fy = (e.clientY - rect.top) / rect.height;
+      setView(v => zoomAt(v, v.zoom * Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), fx, fy));
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Holding space turns dragging into panning, but only for this editor: the
+  // pointer has to be over it or focus inside it, or Space keeps its usual job.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || usesSpace(e.target)) return;
+      const viewport = viewportRef.current;
+      if (!viewport || !(isPointerOver.current || viewport.contains(document.activeElement))) return;
+      e.preventDefault();
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => { if (e.code === 'Space') setIsSpaceHeld(false); };
+    const handleBlur = () => setIsSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  const zoomBy = (factor: number) => setView(v => zoomAt(v, v.zoom * factor, 0.5, 0.5));
+
+  const startPan = (clientX: number, clientY: number) => {
+    panDrag.current = { clientX, clientY, view };
+    setIsPanning(true);
+  };
+
+  const movePan = (clientX: number, clientY: number) => {
+    const start = panDrag.current;
+    const viewport = viewportRef.current;
+    if (!start || !viewport) return;
+    const rect = viewport.getBoundingClientRect();
+    setView(clampView({ ...start.view, x: start.view.x + (clientX - start.clientX) / rect.width, y: start.view.y + (clientY - start.clientY) / rect.height }));
+  };
+
+  const endPan = () => {
+    panDrag.current = null;
+    setIsPanning(false);
+  };
+
+  // Centres the view on the clicked point of the minimap.
+  const handleMinimapPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.type === 'pointermove' && e.buttons !== 1) return;
+    e.stopPropagation();
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fx = (e.clientX - rect.left) / rect.width;
+    const fy = (e.clientY - rect.top) / rect.height;
+    setView(v => clampView({ ...v, x: 0.5 - fx * v.zoom, y: 0.5 - fy * v.zoom }));
+  };
+
+  const getTouchGesture = (touches: React.TouchList) => {
+    const viewport = viewportRef.current;
+    if (!viewport || touches.length < 2) return null;
+    const rect = viewport.getBoundingClientRect();
+    const [a, b] = [touches[0], touches[1]];
+    return {
+      distance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY),
+      centre: { x: ((a.clientX + b.clientX) / 2 - rect.left) / rect.width, y: ((a.clientY + b.clientY) / 2 - rect.top) / rect.height },
+    };
+  };
+
+  // Takes back what the first finger of a pinch started.
+  const cancelTouchDrawing = () => {
+    if (isDrawing) {
+      setIsDrawing(false);
+      lastPoint.current = null;
+      if (selectionTool === 'brush') {
+        restoreSnapshot(undoStack, redoStack);
+        redoStack.current = [];
+        notifyHistoryChange();
+      } else {
+        resetShape();
+      }
+    } else if (selectionTool === 'polygon') {
+      shapePoints.current.pop();
+      drawPreview();
+    }
+  };
+
+  const startPinch = (touches: React.TouchList) => {
+    const gesture = getTouchGesture(touches);
+    if (!gesture) return;
+    if (touchDrew.current) cancelTouchDrawing();
+    touchDrew.current = false;
+    pinch.current = { ...gesture, view };
+  };
+
+  const movePinch = (touches: React.TouchList) => {
+    const start = pinch.current;
+    const gesture = getTouchGesture(touches);
+    if (!start || !gesture || start.distance === 0) return;
+    const zoom = clamp(start.view.zoom * gesture.distance / start.distance, 1, MAX_ZOOM);
+    // The image point that was under the fingers follows them.
+    const imageX = (start.centre.x - start.view.x) / start.view.zoom;
+    const imageY = (start.centre.y - start.view.y) / start.view.zoom;
+    setView(clampView({ zoom, x: gesture.centre.x - imageX * zoom, y: gesture.centre.y - imageY * zoom }));
+  };
+
+  // The brush footprint follows the pointer; it's moved directly to avoid re-rendering.
+  const moveBrushCursor = (clientX: number, clientY: number) => {
+    const cursor = brushCursorRef.current;
+    const viewport = viewportRef.current;
+    if (!cursor || !viewport) return;
+    const rect = viewport.getBoundingClientRect();
+    cursor.style.transform = `translate(${clientX - rect.left - brushSize / 2}px, ${clientY - rect.top - brushSize / 2}px)`;
+    cursor.style.display = 'block';
+  };
+
+  const hideBrushCursor = () => {
+    if (brushCursorRef.current) brushCursorRef.current.style.display = 'none';
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (isSpaceHeld || e.button === 1) {
+      e.preventDefault();
+      startPan(e.clientX, e.clientY);
+      return;
+    }
+    startDrawing(e);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    moveBrushCursor(e.clientX, e.clientY);
+    if (panDrag.current) movePan(e.clientX, e.clientY);
+    else draw(e);
+  };
+
+  const handleMouseUp = (e: React.MouseEvent) => {
+    if (panDrag.current) endPan();
+    else stopDrawing(e);
+  };
+
+  // A stroke ends at the edge, but a half-dragged shape is dropped rather than
+  // filled with whatever the pointer last touched.
+  const handleMouseLeave = (e: React.MouseEvent) => {
+    hideBrushCursor();
+    if (panDrag.current || selectionTool === 'brush' || !isDrawing) {
+      handleMouseUp(e);
+      return;
+    }
+    setIsDrawing(false);
+    resetShape();
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    if (e.touches.length >= 2) {
+      e.preventDefault();
+      startPinch(e.touches);
+      return;
+    }
+    if (pinch.current) return;
+    touchDrew.current = true;
+    startDrawing(e);
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    if (!pinch.current) {
+      draw(e);
+      return;
+    }
+    e.preventDefault();
+    movePinch(e.touches);
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    // Nothing draws again until every finger of a pinch is lifted.
+    if (pinch.current) {
+      if (e.touches.length === 0) pinch.current = null;
+      return;
+    }
+    stopDrawing(e);
+  };
+
   const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
     e.preventDefault();
-    setIsDrawing(true);
     const coords = getCoords(e);
-    if(coords) {
+    if (!coords) return;
+    pointer.current = coords;
+    switch (selectionTool) {
+      case 'brush':
+        pushUndoSnapshot();
+        setIsDrawing(true);
         lastPoint.current = coords;
         // Draw a dot on start to handle clicks without drags
-        draw(e); 
+        drawSegment(coords);
+        break;
+      case 'polygon':
+        addPolygonPoint(coords);
+        break;
+      case 'wand':
+        selectSimilarColour(coords);
+        break;
+      case 'subject': {
+        const canvas = drawingCanvasRef.current;
+        if (canvas) onSubjectClick?.({ x: coords.x / canvas.width, y: coords.y / canvas.height });
+        break;
+      }
+      default:
+        shapePoints.current = [coords];
+        setIsDrawing(true);
     }
   };
 
   const draw = (e: React.MouseEvent | React.TouchEvent) => {
+    const coords = getCoords(e);
+    if (!coords) return;
+    pointer.current = coords;
+    if (selectionTool === 'polygon') {
+      drawPreview();
+      return;
+    }
     if (!isDrawing) return;
     e.preventDefault();
+    if (selectionTool === 'brush') drawSegment(coords);
+    else {
+      if (selectionTool === 'lasso') shapePoints.current.push(coords);
+      drawPreview();
+    }
+  };
+
+  const drawSegment = (coords: Point) => {
     const canvas = drawingCanvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    const coords = getCoords(e);
+    const ctx = getDrawingContext();
 
-    if (!ctx || !coords || !lastPoint.current) return;
+    if (!canvas || !ctx || !lastPoint.current) return;
     
-    const scale = canvas.width / canvas.getBoundingClientRect().width;
+    const scale = getDisplayScale();
     
+    // The mask is painted opaque and shown at half opacity via CSS, so alpha
+    // always reflects how strongly a pixel is selected.
+    ctx.save();
+    ctx.globalCompositeOperation = mode === 'erase' ? 'destination-out' : 'source-over';
     ctx.beginPath();
     ctx.moveTo(lastPoint.current.x, lastPoint.current.y);
     ctx.lineTo(coords.x, coords.y);
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.strokeStyle = 'rgba(255, 255, 255, 1)';
     ctx.lineWidth = brushSize * scale;
     ctx.lineCap = 'round';
     ctx.lineJoin = 'round';
     ctx.stroke();
+    ctx.restore();
 
     lastPoint.current = coords;
   };
@@ -121,13 +604,15 @@ const ImageEditor = forwardRef<ImageEditorRef, ImageEditorProps>(({ imageSrc, br
     e.preventDefault();
     setIsDrawing(false);
     lastPoint.current = null;
+    if (selectionTool !== 'brush') commitShape();
   };
 
   const clearCanvas = () => {
     const canvas = drawingCanvasRef.current;
-    if (canvas) {
-      const ctx = canvas.getContext('2d');
-      ctx?.clearRect(0, 0, canvas.width, canvas.height);
+    const ctx = getDrawingContext();
+    if (canvas && ctx) {
+      pushUndoSnapshot();
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
     }
   };
 
@@ -145,20 +630,14 @@ const ImageEditor = forwardRef<ImageEditorRef, ImageEditorProps>(({ imageSrc, br
       let hasMask = false;
       const maskData = new Uint8ClampedArray(data.length);
       for (let i = 0; i < data.length; i += 4) {
-          // If the pixel on the drawing canvas is not transparent, make the mask pixel white.
-          if (data[i + 3] > 0) {
-              maskData[i] = 255;     // R
-              maskData[i + 1] = 255; // G
-              maskData[i + 2] = 255; // B
-              maskData[i + 3] = 255; // A (Opaque)
-              hasMask = true;
-          } else {
-          // Otherwise, make it black.
-              maskData[i] = 0;       // R
-              maskData[i + 1] = 0;   // G
-              maskData[i + 2] = 0;   // B
-              maskData[i + 3] = 255; // A (Opaque)
-          }
+          // The selection strength becomes the grey level, so painted pixels are
+          // white, unselected ones black and feathered edges in between.
+          const value = data[i + 3];
+          maskData[i] = value;     // R
+          maskData[i + 1] = value; // G
+          maskData[i + 2] = value; // B
+          maskData[i + 3] = 255;   // A (Opaque)
+          if (value > 0) hasMask = true;
       }
 
       if (!hasMask) return ''; // Don't submit if no mask was drawn
@@ -175,25 +654,59 @@ const ImageEditor = forwardRef<ImageEditorRef, ImageEditorProps>(({ imageSrc, br
       return maskCanvas.toDataURL('image/png').split(',')[1];
     },
     clearMask: clearCanvas,
+    undo: () => restoreSnapshot(undoStack, redoStack),
+    redo: () => restoreSnapshot(redoStack, undoStack),
+    invertMask: () => transformMask(mask => invertMask(mask)),
+    growMask: (pixels: number) => transformMask((mask, width, height) => growMask(mask, width, height, pixels)),
+    shrinkMask: (pixels: number) => transformMask((mask, width, height) => shrinkMask(mask, width, height, pixels)),
+    featherMask: (pixels: number) => transformMask((mask, width, height) => featherMask(mask, width, height, pixels)),
+    combineMask: (region, operation) => {
+      const canvas = drawingCanvasRef.current;
+      if (!canvas || region.length !== canvas.width * canvas.height) return;
+      transformMask(mask => combineMasks(mask, region, operation));
+    },
   }));
 
+  const canvasCursor = isPanning ? 'cursor-grabbing' : isSpaceHeld ? 'cursor-grab' : selectionTool === 'brush' ? 'cursor-none' : 'cursor-crosshair';
+
   return (
-    <div 
-        className="relative w-full shadow-lg rounded-lg overflow-hidden" 
+    <div
+        ref={viewportRef}
+        className="relative w-full shadow-lg rounded-lg overflow-hidden"
         style={{ aspectRatio }}
+        onMouseEnter={() => { isPointerOver.current = true; }}
+        onMouseLeave={() => { isPointerOver.current = false; }}
     >
-        <canvas ref={imageCanvasRef} className="absolute top-0 left-0 w-full h-full" />
-        <canvas
-          ref={drawingCanvasRef}
-          className="absolute top-0 left-0 w-full h-full cursor-crosshair touch-none"
-          onMouseDown={startDrawing}
-          onMouseMove={draw}
-          onMouseUp={stopDrawing}
-          onMouseLeave={stopDrawing}
-          onTouchStart={startDrawing}
-          onTouchMove={draw}
-          onTouchEnd={stopDrawing}
-        />
+        <div className="absolute inset-0" style={{ transform: `translate(${view.x * 100}%, ${view.y * 100}%) scale(${view.zoom})`, transformOrigin: '0 0' }}>
+          <canvas ref={imageCanvasRef} className="absolute top-0 left-0 w-full h-full" style={{ imageRendering: view.zoom >= 4 ? 'pixelated' : 'auto' }} />
+          <canvas
+            ref={drawingCanvasRef}
+            className={`absolute top-0 left-0 w-full h-full opacity-50 touch-none ${canvasCursor}`}
+            style={{ imageRendering: view.zoom >= 4 ? 'pixelated' : 'auto' }}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseLeave}
+            onDoubleClick={() => { if (selectionTool === 'polygon') finishPolygon(); }}
+            onTouchStart={handleTouchStart}
+            onTouchMove={handleTouchMove}
+            onTouchEnd={handleTouchEnd}
+          />
+          <canvas ref={previewCanvasRef} className="absolute top-0 left-0 w-full h-full pointer-events-none" />
+        </div>
+        {selectionTool === 'brush' && !isSpaceHeld && !isPanning && (
+          <div ref={brushCursorRef} className="absolute top-0 left-0 rounded-full border border-white pointer-events-none" style={{ display: 'none', width: brushSize, height: brushSize, boxShadow: '0 0 0 1px rgba(0, 0, 0, 0.6)' }} />
+        )}
+        <div className="absolute top-2 right-2 flex items-center gap-1 bg-slate-900/80 rounded-md p-1 text-xs font-semibold" title="Scroll or pinch to zoom. Hold Space and drag to pan.">
+          <button type="button" onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={view.zoom <= 1} className="w-6 h-6 rounded hover:bg-slate-700 disabled:opacity-40" aria-label="Zoom out">−</button>
+          <span className="w-10 text-center tabular-nums">{Math.round(view.zoom * 100)}%</span>
+          <button type="button" onClick={() => zoomBy(ZOOM_STEP)} disabled={view.zoom >= MAX_ZOOM} className="w-6 h-6 rounded hover:bg-slate-700 disabled:opacity-40" aria-label="Zoom in">+</button>
+          <button type="button" onClick={() => setView(FIT_VIEW)} disabled={view.zoom === 1} className="px-1.5 h-6 rounded hover:bg-slate-700 disabled:opacity-40">Fit</button>
+        </div>
+        <div className={`absolute bottom-2 right-2 rounded border border-slate-500 shadow-lg overflow-hidden ${view.zoom > 1 ? '' : 'hidden'}`} style={{ lineHeight: 0 }}>
+          <canvas ref={minimapCanvasRef} className="block cursor-pointer touch-none" onPointerDown={handleMinimapPointer} onPointerMove={handleMinimapPointer} aria-label="Minimap" />
+          <div className="absolute border-2 border-indigo-400 bg-indigo-400/20 pointer-events-none" style={{ left: `${-view.x / view.zoom * 100}%`, top: `${-view.y / view.zoom * 100}%`, width: `${100 / view.zoom}%`, height: `${100 / view.zoom}%` }} />
+        </div>
     </div>
   );
 });
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { ProgressStage } from '../types';
 
 const MESSAGES = [
   "Applying AI magic...",
@@ -8,8 +9,29 @@ const MESSAGES = [
   "Adding the finishing touches...",
 ];
 
-const Loader: React.FC<{ message: string }> = ({ message }) => {
+const STAGE_LABELS: Record<ProgressStage, string> = {
+  preparing: 'Preparing your image',
+  waiting: 'Uploading and waiting for the model',
+  retrying: 'The service hiccupped, retrying',
+  'post-processing': 'Post-processing the result',
+};
+
+interface LoaderProps {
+  message: string;
+  stage?: ProgressStage;
+  stageDetail?: string;
+  startedAt?: number;
+  onCancel?: () => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+const Loader: React.FC<LoaderProps> = ({ message, stage, stageDetail, startedAt, onCancel }) => {
   const [displayMessage, setDisplayMessage] = useState(message || MESSAGES[0]);
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
     let currentIndex = 0;
@@ -21,11 +43,25 @@ const Loader: React.FC<{ message: string }> = ({ message }) => {
     return () => clearInterval(intervalId);
   }, []);
 
+  useEffect(() => {
+    if (!startedAt) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [startedAt]);
+
   return (
     <div className="flex flex-col items-center justify-center text-center p-8">
       <div className="w-12 h-12 border-4 border-t-indigo-500 border-slate-600 rounded-full animate-spin"></div>
       <p className="mt-4 text-lg font-semibold text-slate-300">{displayMessage}</p>
-      <p className="mt-1 text-sm text-slate-400">This may take a moment...</p>
+      {stage ? (
+        <p className="mt-1 text-sm text-slate-400">{STAGE_LABELS[stage]}{stageDetail ? ` (${stageDetail})` : ''}...</p>
+      ) : (
+        <p className="mt-1 text-sm text-slate-400">This may take a moment...</p>
+      )}
+      {startedAt && <p className="mt-1 text-xs text-slate-500 tabular-nums">{formatElapsed(Math.max(0, now - startedAt))} elapsed</p>}
+      {onCancel && (
+        <button onClick={onCancel} className="mt-6 px-6 py-2 text-sm font-semibold bg-slate-700 text-white rounded-md hover:bg-slate-600 transition-colors">Cancel</button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Preset, PresetKind } from '../types';
+import { extractVariables, fillVariables, createPreset } from '../utils/presets';
+import { ChevronDownIcon, DownloadIcon, UploadIcon } from './icons/Icons';
+
+interface PresetPickerProps {
+  kind: PresetKind;
+  presets: Preset[];
+  recent?: string[];
+  currentText: string;
+  onApply: (text: string) => void;
+  onSave: (preset: Preset) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+type Panel = 'presets' | 'recent' | 'save' | null;
+
+const PresetPicker: React.FC<PresetPickerProps> = ({ kind, presets, recent = [], currentText, onApply, onSave, onDelete, onExport, onImport }) => {
+  const [panel, setPanel] = useState<Panel>(null);
+  const [pending, setPending] = useState<{ text: string; variables: string[] } | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [draftName, setDraftName] = useState('');
+  const visiblePresets = presets.filter(p => p.kind === kind);
+
+  const togglePanel = (next: Panel) => {
+    setPanel(current => current === next ? null : next);
+    setPending(null);
+  };
+
+  // Presets with variables ask for their values before being applied.
+  const handleUse = (text: string) => {
+    const variables = extractVariables(text);
+    if (variables.length === 0) {
+      onApply(text);
+      setPanel(null);
+      return;
+    }
+    setPending({ text, variables });
+    setValues({});
+  };
+
+  const handleFill = () => {
+    if (!pending) return;
+    onApply(fillVariables(pending.text, values));
+    setPending(null);
+    setPanel(null);
+  };
+
+  const handleSave = () => {
+    if (!draftName.trim() || !currentText.trim()) return;
+    onSave(createPreset(draftName.trim(), kind, currentText.trim()));
+    setDraftName('');
+    setPanel(null);
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  const tabClass = (name: Panel) => `flex items-center gap-1 px-2 py-1 rounded-md transition-colors ${panel === name ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`;
+
+  return (
+    <div className="mt-2 text-xs">
+      <div className="flex flex-wrap items-center gap-1">
+        <button type="button" onClick={() => togglePanel('presets')} className={tabClass('presets')}>Presets ({visiblePresets.length})<ChevronDownIcon className="w-3 h-3" /></button>
+        {kind === 'prompt' && <button type="button" onClick={() => togglePanel('recent')} disabled={recent.length === 0} className={`${tabClass('recent')} disabled:opacity-40 disabled:cursor-not-allowed`}>Recent<ChevronDownIcon className="w-3 h-3" /></button>}
+        <button type="button" onClick={() => togglePanel('save')} disabled={!currentText.trim()} className={`${tabClass('save')} disabled:opacity-40 disabled:cursor-not-allowed`}>Save as preset</button>
+      </div>
+      {panel && (
+        <div className="mt-2 p-2 bg-slate-900 border border-slate-700 rounded-md space-y-2">
+          {pending ? (
+            <div className="space-y-2">
+              <p className="text-slate-400">Fill in the blanks:</p>
+              {pending.variables.map((name, index) => (
+                <input
+                  key={name}
+                  autoFocus={index === 0}
+                  value={values[name] ?? ''}
+                  onChange={(e) => setValues(v => ({ ...v, [name]: e.target.value }))}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleFill(); }}
+                  placeholder={name}
+                  className="w-full bg-slate-700 border border-slate-600 rounded-md px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                />
+              ))}
+              <p className="text-slate-500 break-words">{fillVariables(pending.text, values)}</p>
+              <div className="flex gap-2">
+                <button type="button" onClick={handleFill} className="px-3 py-1 font-semibold bg-indigo-600 text-white rounded-md hover:bg-indigo-500">Use</button>
+                <button type="button" onClick={() => setPending(null)} className="px-3 py-1 font-semibold bg-slate-700 rounded-md hover:bg-slate-600">Back</button>
+              </div>
+            </div>
+          ) : panel === 'presets' ? (
+            <>
+              {visiblePresets.length === 0 ? (
+                <p className="text-slate-500">No presets yet. Type something and choose "Save as preset". Use {'{name}'} for parts that change each time.</p>
+              ) : (
+                <ul className="max-h-48 overflow-y-auto space-y-1">
+                  {visiblePresets.map(preset => (
+                    <li key={preset.id} className="flex items-center gap-2">
+                      <button type="button" onClick={() => handleUse(preset.text)} className="flex-grow min-w-0 text-left px-2 py-1 rounded hover:bg-slate-700" title={preset.text}>
+                        <span className="font-semibold text-slate-200">{preset.name}</span>
+                        <span className="block truncate text-slate-500">{preset.text}</span>
+                      </button>
+                      <button type="button" onClick={() => onDelete(preset.id)} className="text-red-400 hover:underline flex-shrink-0">Delete</button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-3 pt-1 border-t border-slate-700">
+                <button type="button" onClick={onExport} disabled={presets.length === 0} className="flex items-center gap-1 text-indigo-400 hover:underline disabled:opacity-40 disabled:no-underline"><DownloadIcon className="w-3 h-3" />Export pack</button>
+                <label className="flex items-center gap-1 text-indigo-400 hover:underline cursor-pointer"><UploadIcon className="w-3 h-3" />Import pack<input type="file" accept="application/json,.json" className="sr-only" onChange={handleImportChange} /></label>
+              </div>
+            </>
+          ) : panel === 'recent' ? (
+            <ul className="max-h-48 overflow-y-auto space-y-1">
+              {recent.map(text => (
+                <li key={text}><button type="button" onClick={() => { onApply(text); setPanel(null); }} className="w-full text-left px-2 py-1 rounded truncate text-slate-300 hover:bg-slate-700" title={text}>{text}</button></li>
+              ))}
+            </ul>
+          ) : (
+            <div className="flex gap-2">
+              <input autoFocus value={draftName} onChange={(e) => setDraftName(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }} placeholder="Preset name" className="flex-grow bg-slate-700 border border-slate-600 rounded-md px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none" />
+              <button type="button" onClick={handleSave} disabled={!draftName.trim()} className="px-3 py-1 font-semibold bg-indigo-600 text-white rounded-md hover:bg-indigo-500 disabled:bg-slate-500">Save</button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresetPicker;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { ProjectSummary } from '../types';
+import { UploadIcon, DownloadIcon } from './icons/Icons';
+
+interface ProjectListProps {
+  projects: ProjectSummary[];
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+const ProjectList: React.FC<ProjectListProps> = ({ projects, onOpen, onRename, onDuplicate, onDelete, onExport, onImport }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) onRename(renamingId, draftName.trim());
+    setRenamingId(null);
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="w-full max-w-4xl">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold">Your Projects</h2>
+        <label htmlFor="project-import" className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors cursor-pointer">
+          <UploadIcon className="w-4 h-4" /> Import
+          <input id="project-import" type="file" accept="application/json,.json" className="sr-only" onChange={handleImportChange} />
+        </label>
+      </div>
+      {projects.length === 0 ? (
+        <p className="text-sm text-slate-500">Projects are saved automatically as you edit. They will appear here.</p>
+      ) : (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {projects.map(project => (
+            <li key={project.id} className="flex gap-3 bg-slate-800 border border-slate-700 rounded-lg p-3">
+              <button onClick={() => onOpen(project.id)} className="flex-shrink-0" aria-label={`Open ${project.name}`}>
+                <img src={project.thumbnailUrl} alt="" className="w-20 h-20 rounded-md object-cover" />
+              </button>
+              <div className="flex-grow min-w-0 flex flex-col justify-between">
+                {renamingId === project.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setRenamingId(null); }}
+                    className="w-full bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                  />
+                ) : (
+                  <button onClick={() => onOpen(project.id)} className="text-left font-semibold truncate hover:text-indigo-400">{project.name}</button>
+                )}
+                <p className="text-xs text-slate-500">Edited {new Date(project.updatedAt).toLocaleString()}</p>
+                <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                  <button onClick={() => startRename(project)} className="text-indigo-400 hover:underline">Rename</button>
+                  <button onClick={() => onDuplicate(project.id)} className="text-indigo-400 hover:underline">Duplicate</button>
+                  <button onClick={() => onExport(project.id)} className="flex items-center gap-1 text-indigo-400 hover:underline"><DownloadIcon className="w-3 h-3" />Export</button>
+                  <button onClick={() => onDelete(project.id)} className="text-red-400 hover:underline">Delete</button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProjectList;
@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { alignImage, renderDifferenceHeatmap } from '../utils/compare';
+import { loadImage } from '../utils/image';
+import { DownloadIcon } from './icons/Icons';
+
+type ComparisonMode = 'side-by-side' | 'wipe' | 'flicker' | 'heatmap';
+
+interface ResultComparisonProps {
+  beforeUrl: string;
+  afterUrl: string;
+  afterLabel: string;
+  downloadName: string;
+  // Where the before image sits inside the after image when the canvas grew
+  // (Magic Expand). Without it the before image is stretched to fit.
+  beforeOffset?: { left: number; top: number };
+}
+
+const MODES: { mode: ComparisonMode; label: string }[] = [
+  { mode: 'side-by-side', label: 'Side by Side' },
+  { mode: 'wipe', label: 'Wipe' },
+  { mode: 'flicker', label: 'Flicker' },
+  { mode: 'heatmap', label: 'Changes' },
+];
+
+const FLICKER_INTERVAL_MS = 600;
+
+const ResultComparison: React.FC<ResultComparisonProps> = ({ beforeUrl, afterUrl, afterLabel, downloadName, beforeOffset }) => {
+  const [mode, setMode] = useState<ComparisonMode>('side-by-side');
+  // The before image redrawn at the after image's size, so the two line up.
+  const [alignedBefore, setAlignedBefore] = useState<string | null>(null);
+  const [wipePosition, setWipePosition] = useState(50);
+  const [isFlickering, setIsFlickering] = useState(true);
+  const [showBefore, setShowBefore] = useState(false);
+  const [heatmap, setHeatmap] = useState<{ url: string; changedShare: number } | null>(null);
+  const isWiping = useRef(false);
+  const offsetLeft = beforeOffset?.left;
+  const offsetTop = beforeOffset?.top;
+
+  useEffect(() => {
+    let cancelled = false;
+    setAlignedBefore(null);
+    setHeatmap(null);
+    loadImage(afterUrl)
+      .then(after => alignImage(beforeUrl, after.naturalWidth, after.naturalHeight, offsetLeft === undefined || offsetTop === undefined ? undefined : { left: offsetLeft, top: offsetTop }))
+      .then(url => { if (!cancelled) setAlignedBefore(url); })
+      .catch(err => console.error("Could not align images for comparison:", err));
+    return () => { cancelled = true; };
+  }, [beforeUrl, afterUrl, offsetLeft, offsetTop]);
+
+  // The heatmap is only computed once it is asked for.
+  useEffect(() => {
+    if (mode !== 'heatmap' || heatmap || !alignedBefore) return;
+    let cancelled = false;
+    renderDifferenceHeatmap(alignedBefore, afterUrl)
+      .then(result => { if (!cancelled) setHeatmap(result); })
+      .catch(err => console.error("Could not compute the difference heatmap:", err));
+    return () => { cancelled = true; };
+  }, [mode, heatmap, alignedBefore, afterUrl]);
+
+  useEffect(() => {
+    if (mode !== 'flicker' || !isFlickering) return;
+    const intervalId = window.setInterval(() => setShowBefore(s => !s), FLICKER_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [mode, isFlickering]);
+
+  const updateWipe = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setWipePosition(Math.max(0, Math.min(100, ((e.clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const checkerboard: React.CSSProperties = {
+    backgroundImage: 'repeating-conic-gradient(#334155 0% 25%, #1e293b 0% 50%)',
+    backgroundSize: '16px 16px',
+  };
+
+  const renderOverlay = () => {
+    if (!alignedBefore) return <p className="py-24 text-center text-slate-400">Preparing comparison...</p>;
+    switch (mode) {
+      case 'wipe':
+        return (
+          <div
+            className="relative w-full select-none touch-none cursor-ew-resize rounded-lg overflow-hidden shadow-lg"
+            style={checkerboard}
+            onPointerDown={(e) => { isWiping.current = true; e.currentTarget.setPointerCapture(e.pointerId); updateWipe(e); }}
+            onPointerMove={(e) => { if (isWiping.current) updateWipe(e); }}
+            onPointerUp={() => { isWiping.current = false; }}
+            onPointerCancel={() => { isWiping.current = false; }}
+          >
+            <img src={afterUrl} alt={afterLabel} className="block w-full pointer-events-none" draggable="false" />
+            <img src={alignedBefore} alt="Original" className="absolute inset-0 w-full h-full pointer-events-none" style={{ clipPath: `inset(0 ${100 - wipePosition}% 0 0)` }} draggable="false" />
+            <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${wipePosition}%` }}>
+              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white shadow-lg" />
+            </div>
+            <span className="absolute top-2 left-2 px-2 py-0.5 text-xs font-semibold bg-black/60 rounded">Original</span>
+            <span className="absolute top-2 right-2 px-2 py-0.5 text-xs font-semibold bg-black/60 rounded">{afterLabel}</span>
+          </div>
+        );
+      case 'flicker':
+        return (
+          <div className="w-full space-y-3">
+            <div className="relative w-full rounded-lg overflow-hidden shadow-lg" style={checkerboard}>
+              <img src={showBefore ? alignedBefore : afterUrl} alt={showBefore ? 'Original' : afterLabel} className="block w-full" />
+              <span className="absolute top-2 left-2 px-2 py-0.5 text-xs font-semibold bg-black/60 rounded">{showBefore ? 'Original' : afterLabel}</span>
+            </div>
+            <div className="flex justify-center gap-2">
+              <button onClick={() => setIsFlickering(f => !f)} className="px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">{isFlickering ? 'Pause' : 'Resume'}</button>
+              <button onClick={() => { setIsFlickering(false); setShowBefore(s => !s); }} className="px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">Toggle</button>
+            </div>
+          </div>
+        );
+      case 'heatmap':
+        if (!heatmap) return <p className="py-24 text-center text-slate-400">Computing changes...</p>;
+        return (
+          <div className="w-full space-y-2">
+            <img src={heatmap.url} alt="Difference heatmap" className="block w-full rounded-lg shadow-lg" />
+            <p className="text-sm text-center text-slate-400">
+              {(heatmap.changedShare * 100).toFixed(1)}% of the original's pixels changed. Blue marks small changes, red large ones; areas outside the original aren't shaded.
+            </p>
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex justify-center">
+        <div className="inline-flex bg-slate-800 rounded-md p-1 gap-1" role="tablist">
+          {MODES.map(({ mode: option, label }) => (
+            <button key={option} role="tab" aria-selected={mode === option} onClick={() => setMode(option)} className={`px-3 py-1.5 text-sm font-semibold rounded transition-colors ${mode === option ? 'bg-indigo-600 text-white' : 'text-slate-300 hover:bg-slate-700'}`}>{label}</button>
+          ))}
+        </div>
+      </div>
+      {mode === 'side-by-side' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 w-full">
+          <div className="flex flex-col items-center"><h3 className="text-lg font-semibold text-slate-400 mb-2">Original</h3><img src={beforeUrl} alt="Original" className="rounded-lg shadow-lg w-full object-contain" /></div>
+          <div className="flex flex-col items-center"><h3 className="text-lg font-semibold text-slate-400 mb-2">{afterLabel}</h3><div className="relative group w-full"><img src={afterUrl} alt={afterLabel} className="rounded-lg shadow-lg w-full object-contain" /><a href={afterUrl} download={downloadName} className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded-lg cursor-pointer" aria-label="Download edited image"><DownloadIcon className="w-10 h-10 text-white" /></a></div></div>
+        </div>
+      ) : (
+        <div className="w-full max-w-2xl mx-auto">{renderOverlay()}</div>
+      )}
+    </div>
+  );
+};
+
+export default ResultComparison;
@@ -0,0 +1,92 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ModelTool, RuntimeSettings } from '../types';
+import { DEFAULT_MODELS, IMAGE_EDIT_MODELS, IMAGE_GENERATION_MODELS, SEGMENTATION_MODELS, validateGeminiSettings } from '../services/geminiService';
+import { CheckIcon } from './icons/Icons';
+
+interface SettingsPanelProps {
+  settings: RuntimeSettings;
+  onSave: (settings: RuntimeSettings) => void;
+  onClose: () => void;
+}
+
+const MODEL_FIELDS: { tool: ModelTool; label: string; suggestions: string[] }[] = [
+  { tool: 'magicFill', label: 'Magic Fill', suggestions: IMAGE_EDIT_MODELS },
+  { tool: 'insert', label: 'Insert Image', suggestions: IMAGE_EDIT_MODELS },
+  { tool: 'expand', label: 'Magic Expand', suggestions: IMAGE_EDIT_MODELS },
+  { tool: 'generate', label: 'Create Image', suggestions: IMAGE_GENERATION_MODELS },
+  { tool: 'segment', label: 'Select Subject', suggestions: SEGMENTATION_MODELS },
+];
+
+type Validation = { state: 'idle' } | { state: 'checking' } | { state: 'valid' } | { state: 'invalid'; message: string };
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<RuntimeSettings>(settings);
+  const [showKey, setShowKey] = useState(false);
+  const [validation, setValidation] = useState<Validation>({ state: 'idle' });
+  const validationRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => validationRef.current?.abort(), []);
+
+  const updateDraft = (next: RuntimeSettings) => {
+    setDraft(next);
+    setValidation({ state: 'idle' });
+  };
+
+  const handleValidate = async () => {
+    validationRef.current?.abort();
+    const controller = new AbortController();
+    validationRef.current = controller;
+    setValidation({ state: 'checking' });
+    try {
+      await validateGeminiSettings(draft.apiKey.trim(), draft.models, controller.signal);
+      if (!controller.signal.aborted) setValidation({ state: 'valid' });
+    } catch (err) {
+      if (!controller.signal.aborted) setValidation({ state: 'invalid', message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const handleSave = () => {
+    onSave({
+      apiKey: draft.apiKey.trim(),
+      models: Object.fromEntries(MODEL_FIELDS.map(({ tool }) => [tool, draft.models[tool].trim() || DEFAULT_MODELS[tool]])) as RuntimeSettings['models'],
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div role="dialog" aria-modal="true" aria-labelledby="settings-title" className="w-full max-w-lg bg-slate-800 rounded-lg shadow-xl p-6 space-y-5 max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h2 id="settings-title" className="text-xl font-bold">Settings</h2>
+        <div>
+          <label htmlFor="api-key" className="block text-sm font-medium text-slate-300 mb-1">Gemini API key</label>
+          <div className="flex gap-2">
+            <input id="api-key" type={showKey ? 'text' : 'password'} autoComplete="off" value={draft.apiKey} onChange={(e) => updateDraft({ ...draft, apiKey: e.target.value })} placeholder="Paste your key" className="flex-grow bg-slate-700 border border-slate-600 rounded-md px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none" />
+            <button type="button" onClick={() => setShowKey(s => !s)} className="px-3 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">{showKey ? 'Hide' : 'Show'}</button>
+          </div>
+          <p className="text-xs text-slate-500 mt-1">Stored only in this browser. Leave empty to use the offline mock provider.</p>
+        </div>
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-300">Models</h3>
+          {MODEL_FIELDS.map(({ tool, label, suggestions }) => (
+            <div key={tool} className="grid grid-cols-3 items-center gap-3">
+              <label htmlFor={`model-${tool}`} className="text-sm text-slate-400">{label}</label>
+              <input id={`model-${tool}`} list={`model-${tool}-options`} value={draft.models[tool]} onChange={(e) => updateDraft({ ...draft, models: { ...draft.models, [tool]: e.target.value } })} placeholder={DEFAULT_MODELS[tool]} className="col-span-2 bg-slate-700 border border-slate-600 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none" />
+              <datalist id={`model-${tool}-options`}>{suggestions.map(model => <option key={model} value={model} />)}</datalist>
+            </div>
+          ))}
+          <button type="button" onClick={() => updateDraft({ ...draft, models: DEFAULT_MODELS })} className="text-xs text-indigo-400 hover:underline">Reset to default models</button>
+        </div>
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={handleValidate} disabled={!draft.apiKey.trim() || validation.state === 'checking'} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed">{validation.state === 'checking' ? 'Checking...' : 'Test key and models'}</button>
+          {validation.state === 'valid' && <span className="flex items-center gap-1 text-sm text-green-400"><CheckIcon className="w-4 h-4" /> Key and models work</span>}
+        </div>
+        {validation.state === 'invalid' && <p className="text-sm text-red-400 break-words">{validation.message}</p>}
+        <div className="flex justify-end gap-2 pt-2 border-t border-slate-700">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 rounded-md transition-colors">Cancel</button>
+          <button type="button" onClick={handleSave} className="px-4 py-2 text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-500 rounded-md transition-colors">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,107 @@
+import { createGeminiProvider } from '../services/geminiService';
+import type { RequestOptions, GenerateImageOptions } from '../services/imageProvider';
+import type { ImageTransform, ModelSettings } from '../types';
+import { fitWithin, splitDataUrl, Padding } from '../utils/image';
+import { buildBlendMask, blendPixels, buildSeamWeights } from '../utils/composite';
+import { RasterImage, resizeRaster, padRaster, compositeInsert, buildInsertMask, insertTransformMatrix, DEFAULT_IMAGE_TRANSFORM } from '../utils/raster';
+import { decodePng, encodePng } from './png';
+
+// The editing operations without a browser. Images go in and come out as PNG
+// bytes; `generate` returns whatever format was requested.
+
+export interface HeadlessClientOptions {
+  apiKey: string;
+  // Longest side sent to the model. Results are scaled back to full size.
+  maxWorkingResolution?: number;
+  models?: Partial<ModelSettings>;
+}
+
+export interface FillOptions extends RequestOptions {
+  image: Uint8Array;
+  // White marks the area to change. Scaled to the image if sizes differ.
+  mask: Uint8Array;
+  prompt: string;
+  systemContext?: string;
+  featherPixels?: number;
+}
+
+export interface ExpandOptions extends RequestOptions {
+  image: Uint8Array;
+  prompt: string;
+  padding: Partial<Padding>;
+  // How far into the original the generated border fades in.
+  seamPixels?: number;
+}
+
+export interface InsertOptions extends RequestOptions {
+  image: Uint8Array;
+  insert: Uint8Array;
+  transform?: Partial<ImageTransform>;
+}
+
+export interface GenerateOptions extends GenerateImageOptions {
+  prompt: string;
+}
+
+export const createBananaBrushClient = ({ apiKey, maxWorkingResolution = 1536, models }: HeadlessClientOptions) => {
+  const provider = createGeminiProvider({ apiKey, models });
+
+  const toUpload = (image: RasterImage) => {
+    const { width, height } = fitWithin(image.width, image.height, maxWorkingResolution);
+    return encodePng(resizeRaster(image, width, height)).toString('base64');
+  };
+
+  const decodeResult = (url: string, width: number, height: number) => {
+    return resizeRaster(decodePng(Buffer.from(splitDataUrl(url).base64, 'base64')), width, height);
+  };
+
+  const fill = async ({ image, mask, prompt, systemContext, featherPixels = 8, ...request }: FillOptions): Promise<Buffer[]> => {
+    const original = decodePng(image);
+    const { width, height } = original;
+    const maskRaster = resizeRaster(decodePng(mask), width, height);
+    const results = await provider.editImageWithText(prompt, toUpload(original), toUpload(maskRaster), 'image/png', systemContext, request);
+    request.onProgress?.('post-processing');
+    // As in the editor, only the masked region of each result is kept.
+    const weights = buildBlendMask(maskRaster.data, width, height, featherPixels);
+    return results.map(url => encodePng({ width, height, data: blendPixels(original.data, decodeResult(url, width, height).data, weights) }));
+  };
+
+  const expand = async ({ image, prompt, padding, seamPixels = 16, ...request }: ExpandOptions): Promise<Buffer[]> => {
+    const original = decodePng(image);
+    const sides: Padding = {
+      top: padding.top ?? 0,
+      right: padding.right ?? 0,
+      bottom: padding.bottom ?? 0,
+      left: padding.left ?? 0,
+    };
+    const composite = padRaster(original, sides);
+    const { width, height } = composite;
+    const results = await provider.expandImage(prompt, toUpload(composite), 'image/png', request);
+    request.onProgress?.('post-processing');
+    // As in the editor, the original pixels are pasted back over the result.
+    const weights = buildSeamWeights(width, height, sides, original.width, original.height, seamPixels);
+    return results.map(url => encodePng({ width, height, data: blendPixels(decodeResult(url, width, height).data, composite.data, weights) }));
+  };
+
+  const insert = async ({ image, insert, transform, ...request }: InsertOptions): Promise<Buffer[]> => {
+    const original = decodePng(image);
+    const insertRaster = decodePng(insert);
+    const overrides = Object.entries(transform ?? {}).filter(([, value]) => value !== undefined);
+    const placement: ImageTransform = { ...DEFAULT_IMAGE_TRANSFORM, ...Object.fromEntries(overrides) };
+    const matrix = insertTransformMatrix(placement, original.width, original.height, insertRaster.width, insertRaster.height);
+    const composite = compositeInsert(original, insertRaster, matrix, placement.opacity / 100);
+    const mask = buildInsertMask(original.width, original.height, [{ insert: insertRaster, matrix }]);
+    const results = await provider.blendImages(toUpload(original), toUpload(composite), toUpload(mask), 'image/png', 'image/png', request);
+    request.onProgress?.('post-processing');
+    return results.map(url => encodePng(decodeResult(url, original.width, original.height)));
+  };
+
+  const generate = async ({ prompt, ...options }: GenerateOptions): Promise<Buffer[]> => {
+    const results = await provider.generateImage(prompt, options);
+    return results.map(url => Buffer.from(splitDataUrl(url).base64, 'base64'));
+  };
+
+  return { fill, expand, insert, generate };
+};
+
+export type BananaBrushClient = ReturnType<typeof createBananaBrushClient>;
@@ -0,0 +1,167 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import path from 'node:path';
+import { createBananaBrushClient } from './api';
+import { describeError } from '../services/errors';
+import { GENERATION_ASPECT_RATIOS, PERSON_GENERATION_SETTINGS } from '../services/geminiService';
+import type { GenerationOutputFormat } from '../types';
+
+const USAGE = `Usage: banana-brush <command> [options]
+
+Commands:
+  fill      --image in.png --mask mask.png --prompt "..." [--feather 8] [--context "..."]
+  expand    --image in.png --prompt "..." [--top N] [--right N] [--bottom N] [--left N] [--seam 16]
+  insert    --image in.png --insert object.png [--x 50] [--y 50] [--scale 50] [--rotation 0] [--opacity 100]
+  generate  --prompt "..." [--aspect-ratio ${GENERATION_ASPECT_RATIOS.join('|')}] [--format png|jpeg]
+            [--negative "..."] [--people ${PERSON_GENERATION_SETTINGS.join('|')}]
+
+Common options:
+  --out FILE            Where to write the result (default: <command>.png next to the input)
+  --count N             Number of variations; extra ones are written as FILE-2, FILE-3, ...
+  --max-resolution N    Longest side sent to the model (default 1536)
+  --api-key KEY         Gemini API key (default: GEMINI_API_KEY or API_KEY)
+
+Images are read and written as PNG.`;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    image: { type: 'string' },
+    mask: { type: 'string' },
+    insert: { type: 'string' },
+    prompt: { type: 'string' },
+    context: { type: 'string' },
+    feather: { type: 'string' },
+    top: { type: 'string' },
+    right: { type: 'string' },
+    bottom: { type: 'string' },
+    left: { type: 'string' },
+    seam: { type: 'string' },
+    x: { type: 'string' },
+    y: { type: 'string' },
+    scale: { type: 'string' },
+    rotation: { type: 'string' },
+    opacity: { type: 'string' },
+    'aspect-ratio': { type: 'string' },
+    format: { type: 'string' },
+    negative: { type: 'string' },
+    people: { type: 'string' },
+    out: { type: 'string' },
+    count: { type: 'string' },
+    'max-resolution': { type: 'string' },
+    'api-key': { type: 'string' },
+    help: { type: 'boolean', short: 'h' },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const requireOption = (name: keyof typeof values): string => {
+  const value = values[name];
+  if (typeof value !== 'string' || !value) return fail(`Missing --${name}`);
+  return value;
+};
+
+const numberOption = (name: keyof typeof values): number | undefined => {
+  const value = values[name];
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) return fail(`--${name} must be a number`);
+  return parsed;
+};
+
+const choiceOption = <T extends string>(name: keyof typeof values, choices: readonly T[]): T | undefined => {
+  const value = values[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !(choices as readonly string[]).includes(value)) return fail(`--${name} must be one of ${choices.join(', ')}`);
+  return value as T;
+};
+
+const OUTPUT_FORMATS: Record<string, GenerationOutputFormat> = { png: 'image/png', jpeg: 'image/jpeg', jpg: 'image/jpeg' };
+
+// out.png, out-2.png, out-3.png, ...
+const outputPaths = (count: number, fallback: string): string[] => {
+  const out = values.out ?? fallback;
+  const { dir, name, ext } = path.parse(out);
+  return Array.from({ length: count }, (_, i) => i === 0 ? out : path.join(dir, `${name}-${i + 1}${ext}`));
+};
+
+const defaultOutput = (command: string, extension = 'png') => {
+  return values.image ? path.join(path.dirname(values.image), `${path.parse(values.image).name}-${command}.${extension}`) : `${command}.${extension}`;
+};
+
+const main = async () => {
+  const command = positionals[0];
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const apiKey = values['api-key'] ?? process.env.GEMINI_API_KEY ?? process.env.API_KEY;
+  if (!apiKey) fail("No API key. Pass --api-key or set GEMINI_API_KEY.");
+  const client = createBananaBrushClient({ apiKey: apiKey!, maxWorkingResolution: numberOption('max-resolution') });
+  const request = {
+    count: numberOption('count') ?? 1,
+    onProgress: (stage: string, detail?: string) => console.error(`${stage}${detail ? ` (${detail})` : ''}...`),
+  };
+
+  let results: Buffer[];
+  let extension = 'png';
+  switch (command) {
+    case 'fill':
+      results = await client.fill({
+        image: await readFile(requireOption('image')),
+        mask: await readFile(requireOption('mask')),
+        prompt: requireOption('prompt'),
+        systemContext: values.context,
+        featherPixels: numberOption('feather'),
+        ...request,
+      });
+      break;
+    case 'expand':
+      results = await client.expand({
+        image: await readFile(requireOption('image')),
+        prompt: requireOption('prompt'),
+        padding: { top: numberOption('top'), right: numberOption('right'), bottom: numberOption('bottom'), left: numberOption('left') },
+        seamPixels: numberOption('seam'),
+        ...request,
+      });
+      break;
+    case 'insert':
+      results = await client.insert({
+        image: await readFile(requireOption('image')),
+        insert: await readFile(requireOption('insert')),
+        transform: { x: numberOption('x'), y: numberOption('y'), scale: numberOption('scale'), rotation: numberOption('rotation'), opacity: numberOption('opacity') },
+        ...request,
+      });
+      break;
+    case 'generate': {
+      const outputMimeType = OUTPUT_FORMATS[choiceOption('format', Object.keys(OUTPUT_FORMATS)) ?? 'png'];
+      extension = outputMimeType === 'image/jpeg' ? 'jpg' : 'png';
+      results = await client.generate({
+        prompt: requireOption('prompt'),
+        aspectRatio: choiceOption('aspect-ratio', GENERATION_ASPECT_RATIOS),
+        outputMimeType,
+        negativePrompt: values.negative,
+        personGeneration: choiceOption('people', PERSON_GENERATION_SETTINGS),
+        ...request,
+      });
+      break;
+    }
+    default:
+      return fail(`Unknown command "${command}"`);
+  }
+
+  const paths = outputPaths(results.length, defaultOutput(command, extension));
+  await Promise.all(results.map((data, i) => writeFile(paths[i], data)));
+  paths.forEach(p => console.log(p));
+};
+
+main().catch(error => {
+  console.error(describeError(error));
+  process.exit(1);
+});
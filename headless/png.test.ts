@@ -0,0 +1,138 @@
+import { deflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { decodePng, encodePng, isPng } from './png';
+import { crc32 } from '../utils/zip';
+import { InvalidInputError } from '../services/errors';
+import type { RasterImage } from '../utils/raster';
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const chunk = (type: string, data: Uint8Array | number[]) => {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), Buffer.from(data)]);
+  const out = Buffer.alloc(body.length + 8);
+  out.writeUInt32BE(body.length - 4, 0);
+  body.copy(out, 4);
+  out.writeUInt32BE(crc32(body), body.length + 4);
+  return out;
+};
+
+// Builds a PNG from already filtered scanlines (each starting with its filter byte).
+const buildPng = (width: number, height: number, bitDepth: number, colorType: number, scanlines: number[][], extra: Buffer[] = [], interlace = 0) => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = bitDepth;
+  header[9] = colorType;
+  header[12] = interlace;
+  return Buffer.concat([
+    Buffer.from(SIGNATURE),
+    chunk('IHDR', header),
+    ...extra,
+    chunk('IDAT', deflateSync(Buffer.from(scanlines.flat()))),
+    chunk('IEND', []),
+  ]);
+};
+
+const pixelsOf = ({ data }: RasterImage) => Array.from(data);
+
+// Walks the chunk list, checking every length and CRC on the way.
+const readChunks = (png: Uint8Array) => {
+  const buffer = Buffer.from(png);
+  const chunks: { type: string; data: Buffer }[] = [];
+  for (let offset = 8; offset < buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    expect(buffer.readUInt32BE(offset + 8 + length)).toBe(crc32(buffer.subarray(offset + 4, offset + 8 + length)));
+    chunks.push({ type, data: buffer.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+describe('encodePng and decodePng', () => {
+  it('round-trips RGBA pixels exactly', () => {
+    const width = 7, height = 5;
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < data.length; i++) data[i] = (i * 37 + (i >> 2) * 11) & 0xff;
+    const encoded = encodePng({ width, height, data });
+    expect(isPng(encoded)).toBe(true);
+    const decoded = decodePng(encoded);
+    expect(decoded.width).toBe(width);
+    expect(decoded.height).toBe(height);
+    expect(decoded.data).toEqual(data);
+  });
+
+  it('writes valid chunks in order', () => {
+    const encoded = encodePng({ width: 2, height: 1, data: new Uint8ClampedArray(8) });
+    expect(Array.from(encoded.subarray(0, 8))).toEqual(SIGNATURE);
+    const chunks = readChunks(encoded);
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+    expect(Array.from(chunks[0].data)).toEqual([0, 0, 0, 2, 0, 0, 0, 1, 8, 6, 0, 0, 0]);
+  });
+});
+
+describe('decodePng', () => {
+  it('reverses every scanline filter', () => {
+    // An 8-bit greyscale 3x5 image; rows use None, Sub, Up, Average and Paeth.
+    const png = buildPng(3, 5, 8, 0, [
+      [0, 10, 20, 30],
+      [1, 40, 5, 5],
+      [2, 10, 10, 10],
+      [3, 30, 20, 20],
+      [4, 1, 2, 3],
+    ]);
+    const rows = [[10, 20, 30], [40, 45, 50], [50, 55, 60], [55, 75, 87], [56, 77, 90]];
+    expect(pixelsOf(decodePng(png))).toEqual(rows.flat().flatMap(v => [v, v, v, 255]));
+  });
+
+  it('expands palettes with transparency', () => {
+    const png = buildPng(2, 1, 8, 3, [[0, 1, 0]], [chunk('PLTE', [255, 0, 0, 0, 0, 255]), chunk('tRNS', [128])]);
+    expect(pixelsOf(decodePng(png))).toEqual([0, 0, 255, 255, 255, 0, 0, 128]);
+  });
+
+  it('scales low bit depths to 0-255', () => {
+    // Four 2-bit grey samples packed into one byte: 0, 1, 2, 3.
+    const png = buildPng(4, 1, 2, 0, [[0, 0b00011011]]);
+    expect(pixelsOf(decodePng(png))).toEqual([0, 85, 170, 255].flatMap(v => [v, v, v, 255]));
+  });
+
+  it('keeps the high byte of 16-bit samples', () => {
+    const png = buildPng(1, 1, 16, 4, [[0, 0x12, 0x34, 0xab, 0xcd]]);
+    expect(pixelsOf(decodePng(png))).toEqual([0x12, 0x12, 0x12, 0xab]);
+  });
+
+  it('joins image data split across IDAT chunks', () => {
+    const png = Buffer.from(encodePng({ width: 3, height: 3, data: new Uint8ClampedArray(36).fill(200) }));
+    const [ihdr, idat] = readChunks(png);
+    const half = Math.floor(idat.data.length / 2);
+    const split = Buffer.concat([
+      Buffer.from(SIGNATURE),
+      chunk('IHDR', ihdr.data),
+      chunk('IDAT', idat.data.subarray(0, half)),
+      chunk('IDAT', idat.data.subarray(half)),
+      chunk('IEND', []),
+    ]);
+    expect(pixelsOf(decodePng(split))).toEqual(new Array(36).fill(200));
+  });
+
+  it('rejects truncated and corrupt files as damaged', () => {
+    const png = encodePng({ width: 4, height: 4, data: new Uint8ClampedArray(64).fill(7) });
+    for (const end of [10, 20, 33, 40, png.length - 13]) {
+      expect(() => decodePng(png.subarray(0, end))).toThrow(InvalidInputError);
+    }
+    const [ihdr] = readChunks(png);
+    const withIdat = (data: Uint8Array) => Buffer.concat([Buffer.from(SIGNATURE), chunk('IHDR', ihdr.data), chunk('IDAT', data), chunk('IEND', [])]);
+    expect(() => decodePng(withIdat(Buffer.from([1, 2, 3, 4])))).toThrow('damaged');
+    // Valid zlib data, but fewer rows than the header promises.
+    expect(() => decodePng(withIdat(deflateSync(Buffer.alloc(17))))).toThrow('damaged');
+    expect(() => decodePng(Buffer.concat([Buffer.from(SIGNATURE), chunk('IHDR', [0, 0, 0, 1])]))).toThrow('damaged');
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(() => decodePng(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toThrow(InvalidInputError);
+    expect(() => decodePng(buildPng(1, 1, 8, 0, [[0, 0]], [], 1))).toThrow('Interlaced');
+    expect(() => decodePng(buildPng(1, 1, 8, 5, [[0, 0]]))).toThrow('unknown colour type');
+    expect(() => decodePng(buildPng(1, 1, 8, 0, [[7, 0]]))).toThrow('filter type 7');
+    expect(() => decodePng(buildPng(1, 1, 8, 3, [[0, 0]]))).toThrow('missing its palette');
+  });
+});
@@ -0,0 +1,163 @@
+import { inflateSync, deflateSync } from 'node:zlib';
+import { RasterImage } from '../utils/raster';
+import { crc32 } from '../utils/zip';
+import { InvalidInputError } from '../services/errors';
+
+// A small PNG codec on top of Node's zlib, so the headless API can read and
+// write pixels without a native canvas dependency. JPEG and other formats are
+// not supported here; convert them to PNG first.
+
+const DAMAGED = "This PNG file is damaged or incomplete";
+
+const SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// Samples per pixel for each PNG colour type.
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+export const isPng = (data: Uint8Array) => Buffer.from(data.subarray(0, 8)).equals(SIGNATURE);
+
+const paeth = (left: number, up: number, upLeft: number) => {
+  const p = left + up - upLeft;
+  const pa = Math.abs(p - left), pb = Math.abs(p - up), pc = Math.abs(p - upLeft);
+  return pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+};
+
+const unfilter = (data: Buffer, height: number, rowBytes: number, bytesPerPixel: number): Uint8Array => {
+  const out = new Uint8Array(height * rowBytes);
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (rowBytes + 1)];
+    const source = y * (rowBytes + 1) + 1;
+    const row = y * rowBytes;
+    for (let i = 0; i < rowBytes; i++) {
+      const raw = data[source + i];
+      const left = i >= bytesPerPixel ? out[row + i - bytesPerPixel] : 0;
+      const up = y > 0 ? out[row - rowBytes + i] : 0;
+      const upLeft = y > 0 && i >= bytesPerPixel ? out[row - rowBytes + i - bytesPerPixel] : 0;
+      switch (filter) {
+        case 0: out[row + i] = raw; break;
+        case 1: out[row + i] = raw + left; break;
+        case 2: out[row + i] = raw + up; break;
+        case 3: out[row + i] = raw + ((left + up) >> 1); break;
+        case 4: out[row + i] = raw + paeth(left, up, upLeft); break;
+        default: throw new InvalidInputError(`Unsupported PNG filter type ${filter}`);
+      }
+    }
+  }
+  return out;
+};
+
+export const decodePng = (data: Uint8Array): RasterImage => {
+  const buffer = Buffer.from(data);
+  if (!isPng(buffer)) throw new InvalidInputError("Only PNG images are supported in headless mode");
+
+  let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+  for (let offset = 8; offset < buffer.length;) {
+    // Every chunk is a length, a type, the data and a CRC.
+    if (offset + 12 > buffer.length) throw new InvalidInputError(DAMAGED);
+    const length = buffer.readUInt32BE(offset);
+    if (offset + 12 + length > buffer.length) throw new InvalidInputError(DAMAGED);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      if (length < 13) throw new InvalidInputError(DAMAGED);
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlace = chunk[12];
+    } else if (type === 'PLTE') palette = chunk;
+    else if (type === 'tRNS') transparency = chunk;
+    else if (type === 'IDAT') idat.push(chunk);
+    else if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!width || !height || !channels) throw new InvalidInputError("This PNG file is damaged or uses an unknown colour type");
+  if (interlace) throw new InvalidInputError("Interlaced PNG images are not supported in headless mode");
+
+  const bitsPerPixel = channels * bitDepth;
+  const rowBytes = Math.ceil(width * bitsPerPixel / 8);
+  let filtered: Buffer;
+  try {
+    filtered = inflateSync(Buffer.concat(idat));
+  } catch (error) {
+    throw new InvalidInputError(DAMAGED, { cause: error });
+  }
+  if (filtered.length < height * (rowBytes + 1)) throw new InvalidInputError(DAMAGED);
+  const pixels = unfilter(filtered, height, rowBytes, Math.max(1, bitsPerPixel >> 3));
+
+  // Reads sample `index` of a row, scaled to 0-255 (or a raw palette index).
+  const readSample = (row: number, index: number): number => {
+    if (bitDepth === 8) return pixels[row + index];
+    if (bitDepth === 16) return pixels[row + index * 2];
+    const bit = index * bitDepth;
+    const value = (pixels[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+    return colorType === 3 ? value : Math.round(value * 255 / ((1 << bitDepth) - 1));
+  };
+
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = y * rowBytes;
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const s = x * channels;
+      switch (colorType) {
+        case 0: out.fill(readSample(row, s), o, o + 3); out[o + 3] = 255; break;
+        case 4: out.fill(readSample(row, s), o, o + 3); out[o + 3] = readSample(row, s + 1); break;
+        case 2: for (let c = 0; c < 3; c++) out[o + c] = readSample(row, s + c); out[o + 3] = 255; break;
+        case 6: for (let c = 0; c < 4; c++) out[o + c] = readSample(row, s + c); break;
+        case 3: {
+          const entry = readSample(row, s);
+          if (!palette) throw new InvalidInputError("This PNG file is missing its palette");
+          out[o] = palette[entry * 3];
+          out[o + 1] = palette[entry * 3 + 1];
+          out[o + 2] = palette[entry * 3 + 2];
+          out[o + 3] = transparency && entry < transparency.length ? transparency[entry] : 255;
+          break;
+        }
+      }
+    }
+  }
+  return { width, height, data: out };
+};
+
+const chunk = (type: string, data: Uint8Array) => {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, 'ascii');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, crc]);
+};
+
+// Always writes 8-bit RGBA with the Sub filter, which compresses photos well enough.
+export const encodePng = ({ width, height, data }: RasterImage): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 6;
+
+  const rowBytes = width * 4;
+  const filtered = Buffer.alloc(height * (rowBytes + 1));
+  for (let y = 0; y < height; y++) {
+    const target = y * (rowBytes + 1);
+    filtered[target] = 1;
+    for (let i = 0; i < rowBytes; i++) {
+      const value = data[y * rowBytes + i];
+      const left = i >= 4 ? data[y * rowBytes + i - 4] : 0;
+      filtered[target + 1 + i] = (value - left) & 0xff;
+    }
+  }
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(filtered)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { runQueue } from './batch';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('runQueue', () => {
+  it('runs every item once with at most `concurrency` in flight', async () => {
+    let inFlight = 0, maxInFlight = 0;
+    const seen: number[] = [];
+    await runQueue([10, 11, 12, 13, 14], 2, async (item, index) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await tick();
+      seen.push(index);
+      expect(item).toBe(10 + index);
+      inFlight--;
+    });
+    expect(seen.sort()).toEqual([0, 1, 2, 3, 4]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('starts items in order', async () => {
+    const started: number[] = [];
+    await runQueue(['a', 'b', 'c', 'd'], 3, async (_item, index) => {
+      started.push(index);
+      await tick();
+    });
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  it('still makes progress with a concurrency of zero', async () => {
+    const seen: string[] = [];
+    await runQueue(['a', 'b'], 0, async item => { seen.push(item); });
+    expect(seen).toEqual(['a', 'b']);
+  });
+
+  it('resolves straight away for an empty list', async () => {
+    await expect(runQueue([], 4, async () => { throw new Error('should not run'); })).resolves.toBeUndefined();
+  });
+
+  it('starts no new items once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const seen: number[] = [];
+    await runQueue([0, 1, 2, 3, 4], 1, async item => {
+      seen.push(item);
+      if (item === 1) controller.abort();
+      await tick();
+    }, controller.signal);
+    expect(seen).toEqual([0, 1]);
+  });
+});
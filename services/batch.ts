@@ -0,0 +1,103 @@
+import { EditableImage } from '../types';
+import { editImageWithText, expandImage, RequestOptions } from './imageProvider';
+import { compositeMaskedResult, compositeExpandResult } from '../utils/composite';
+import { createCanvas, fitWithin, padImage, resizeImage, splitDataUrl, toDataUrl, toUploadPayload, Padding } from '../utils/image';
+import { createZip } from '../utils/zip';
+
+export type BatchOperation =
+  // The mask is painted once on a reference image and stretched over each image.
+  | { tool: 'magicFill'; prompt: string; maskBase64: string; featherPixels: number }
+  // Padding is a percentage of each image's own width/height, so images with
+  // the same aspect ratio all end up with the same aspect ratio.
+  | { tool: 'expand'; prompt: string; padding: Padding; seamPixels: number }
+  | { tool: 'instruction'; prompt: string };
+
+export interface BatchRunOptions extends Pick<RequestOptions, 'signal' | 'onProgress'> {
+  maxWorkingResolution: number;
+  systemContext?: string;
+}
+
+const createFullMask = (width: number, height: number) => {
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, width, height);
+  return splitDataUrl(canvas.toDataURL('image/png')).base64;
+};
+
+// Applies one operation to one image and resolves to the result at the
+// image's own resolution (or the expanded resolution for 'expand').
+export const runBatchOperation = async (
+  image: EditableImage,
+  operation: BatchOperation,
+  { maxWorkingResolution, systemContext, signal, onProgress }: BatchRunOptions
+): Promise<string> => {
+  const request = { signal, onProgress };
+  switch (operation.tool) {
+    case 'magicFill': {
+      const uploadSize = fitWithin(image.width, image.height, maxWorkingResolution);
+      const maskUrl = await resizeImage(toDataUrl('image/png', operation.maskBase64), image.width, image.height);
+      const original = await toUploadPayload(image.url, uploadSize, image.file.type);
+      const mask = await toUploadPayload(maskUrl, uploadSize, 'image/png');
+      const [result] = await editImageWithText(operation.prompt, original.base64, mask.base64, original.mimeType, systemContext, request);
+      onProgress?.('post-processing');
+      return compositeMaskedResult(image.url, result, splitDataUrl(maskUrl).base64, operation.featherPixels);
+    }
+    case 'instruction': {
+      const uploadSize = fitWithin(image.width, image.height, maxWorkingResolution);
+      const original = await toUploadPayload(image.url, uploadSize, image.file.type);
+      const mask = createFullMask(uploadSize.width, uploadSize.height);
+      const [result] = await editImageWithText(operation.prompt, original.base64, mask, original.mimeType, systemContext, request);
+      onProgress?.('post-processing');
+      return resizeImage(result, image.width, image.height);
+    }
+    case 'expand': {
+      const padding: Padding = {
+        top: Math.round(image.height * operation.padding.top / 100),
+        right: Math.round(image.width * operation.padding.right / 100),
+        bottom: Math.round(image.height * operation.padding.bottom / 100),
+        left: Math.round(image.width * operation.padding.left / 100),
+      };
+      const width = image.width + padding.left + padding.right;
+      const height = image.height + padding.top + padding.bottom;
+      const compositeUrl = await padImage(image.url, padding, image.file.type);
+      const composite = await toUploadPayload(compositeUrl, fitWithin(width, height, maxWorkingResolution), image.file.type);
+      const [result] = await expandImage(operation.prompt, composite.base64, composite.mimeType, request);
+      onProgress?.('post-processing');
+      return compositeExpandResult(image.url, await resizeImage(result, width, height), padding, operation.seamPixels);
+    }
+  }
+};
+
+// Runs `worker` over every item with at most `concurrency` in flight. Workers
+// handle their own errors; aborting the signal stops new items from starting.
+export const runQueue = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const runLane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runLane));
+};
+
+const extensionFor = (mimeType: string) => mimeType === 'image/jpeg' ? 'jpg' : mimeType.split('/')[1] || 'png';
+
+// Bundles finished results into a zip, named after their source files.
+export const createBatchArchive = async (results: { fileName: string; url: string }[]): Promise<Blob> => {
+  const usedNames = new Set<string>();
+  const entries = await Promise.all(results.map(async ({ fileName, url }) => {
+    const blob = await (await fetch(url)).blob();
+    const baseName = fileName.replace(/\.[^.]+$/, '') || 'image';
+    let name = `${baseName}-edited.${extensionFor(blob.type)}`;
+    for (let n = 2; usedNames.has(name); n++) name = `${baseName}-edited-${n}.${extensionFor(blob.type)}`;
+    usedNames.add(name);
+    return { name, data: new Uint8Array(await blob.arrayBuffer()) };
+  }));
+  return createZip(entries);
+};
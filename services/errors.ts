@@ -0,0 +1,151 @@
+import { ApiError } from "@google/genai";
+
+// Errors thrown by the image providers. Each kind tells the user whether to
+// change their request or simply try again later.
+export type ImageErrorKind = 'safety' | 'quota' | 'invalid_input' | 'network' | 'no_image' | 'cancelled' | 'unexpected';
+
+export class ImageServiceError extends Error {
+  readonly kind: ImageErrorKind;
+  // Whatever text the model returned alongside (or instead of) an image.
+  readonly modelText?: string;
+  readonly retryable: boolean;
+
+  constructor(kind: ImageErrorKind, message: string, options: { modelText?: string; retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.kind = kind;
+    this.modelText = options.modelText;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+export class SafetyBlockError extends ImageServiceError {
+  constructor(message: string, options: { modelText?: string; cause?: unknown } = {}) {
+    super('safety', message, options);
+  }
+}
+
+export class QuotaError extends ImageServiceError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super('quota', message, { ...options, retryable: true });
+  }
+}
+
+export class InvalidInputError extends ImageServiceError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super('invalid_input', message, options);
+  }
+}
+
+export class NetworkError extends ImageServiceError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super('network', message, { ...options, retryable: true });
+  }
+}
+
+export class NoImageError extends ImageServiceError {
+  constructor(message: string, options: { modelText?: string; cause?: unknown } = {}) {
+    super('no_image', message, options);
+  }
+}
+
+// Anything that doesn't fit the kinds above, such as a bug in our own code.
+export class UnexpectedError extends ImageServiceError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super('unexpected', message, options);
+  }
+}
+
+export class CancelledError extends ImageServiceError {
+  constructor(message = "The request was cancelled") {
+    super('cancelled', message);
+  }
+}
+
+const HINTS: Record<ImageErrorKind, string> = {
+  safety: 'Try rephrasing your prompt or choosing a different image.',
+  quota: 'The service is busy or your quota is used up. Please wait a moment and try again.',
+  invalid_input: 'Please check your image and prompt, then try again.',
+  network: 'Check your connection and try again.',
+  no_image: 'Try rephrasing your prompt to describe the image you want.',
+  cancelled: '',
+  unexpected: 'Please try again. If it keeps happening, reload the page.',
+};
+
+const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new CancelledError();
+};
+
+// Like setTimeout as a promise, but rejects with CancelledError on abort.
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError());
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Maps anything thrown by the SDK or fetch onto the taxonomy above.
+export const classifyError = (error: unknown, context: string): ImageServiceError => {
+  if (error instanceof ImageServiceError) return error;
+  if (isAbortError(error)) return new CancelledError();
+  const detail = error instanceof Error ? error.message : String(error);
+  const message = `${context}: ${detail}`;
+
+  if (error instanceof ApiError) {
+    if (error.status === 429) return new QuotaError(message, { cause: error });
+    if (error.status >= 500) return new NetworkError(message, { cause: error });
+    if (error.status === 400 && /safety|blocked|prohibited/i.test(detail)) return new SafetyBlockError(message, { cause: error });
+    return new InvalidInputError(message, { cause: error });
+  }
+  if (/network|fetch|load failed|timed? ?out/i.test(detail)) {
+    return new NetworkError(message, { cause: error });
+  }
+  return new UnexpectedError(message, { cause: error });
+};
+
+// A user-facing description: what happened, the model's own explanation if it
+// gave one, and what to do next.
+export const describeError = (error: unknown): string => {
+  if (error instanceof ImageServiceError) {
+    const explanation = error.modelText ? ` The model said: "${error.modelText}"` : '';
+    return `${error.message.replace(/\.$/, '')}.${explanation} ${HINTS[error.kind]}`.trim();
+  }
+  if (error instanceof Error && error.message) return error.message;
+  return 'An unexpected error occurred.';
+};
+
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_RETRIES = 3;
+
+interface RetryOptions {
+  retries?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, maxAttempts: number) => void;
+}
+
+// Retries transient failures with exponential backoff and a little jitter.
+// Aborting the signal stops both the wait and any further attempts.
+export const withRetry = async <T>(operation: () => Promise<T>, context: string, { retries = MAX_RETRIES, signal, onRetry }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await operation();
+    } catch (error) {
+      const classified = signal?.aborted ? new CancelledError() : classifyError(error, context);
+      if (!classified.retryable || attempt >= retries) throw classified;
+      const delayMs = RETRY_BASE_DELAY_MS * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      await abortableDelay(delayMs, signal);
+      onRetry?.(attempt + 2, retries + 1);
+    }
+  }
+};
@@ -1,37 +1,112 @@
 
-import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
+import { GoogleGenAI, Modality, GenerateContentResponse, GenerateContentParameters, PersonGeneration, FinishReason } from "@google/genai";
+import type { ImageProvider, RequestOptions, GenerateImageOptions } from "./imageProvider";
+import type { GenerationAspectRatio, PersonGenerationSetting, ModelSettings, SubjectTarget, SubjectSegment } from "../types";
+import { SafetyBlockError, NoImageError, InvalidInputError, classifyError, withRetry, throwIfAborted } from "./errors";
+
+const PERSON_GENERATION: Record<PersonGenerationSetting, PersonGeneration> = {
+  dont_allow: PersonGeneration.DONT_ALLOW,
+  allow_adult: PersonGeneration.ALLOW_ADULT,
+  allow_all: PersonGeneration.ALLOW_ALL,
+};
+
+export const PERSON_GENERATION_SETTINGS = Object.keys(PERSON_GENERATION) as PersonGenerationSetting[];
 
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
+// The aspect ratios Imagen can generate.
+export const GENERATION_ASPECT_RATIOS: GenerationAspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+export const DEFAULT_MODELS: ModelSettings = {
+  magicFill: 'gemini-2.5-flash-image-preview',
+  insert: 'gemini-2.5-flash-image-preview',
+  expand: 'gemini-2.5-flash-image-preview',
+  generate: 'imagen-4.0-generate-001',
+  segment: 'gemini-2.5-flash',
+};
+
+// Suggestions for the settings panel; any other model ID can be typed in.
+export const IMAGE_EDIT_MODELS = ['gemini-2.5-flash-image-preview', 'gemini-2.5-flash-image'];
+export const SEGMENTATION_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro'];
+export const IMAGE_GENERATION_MODELS = ['imagen-4.0-generate-001', 'imagen-4.0-fast-generate-001', 'imagen-4.0-ultra-generate-001', 'imagen-3.0-generate-002'];
+
+interface GeminiContext {
+  getClient: () => GoogleGenAI;
+  models: ModelSettings;
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
 
 const processImageResponse = (response: GenerateContentResponse): string => {
-  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(`The request was blocked by safety filters (${blockReason})`, { modelText: response.promptFeedback?.blockReasonMessage });
+  }
+
+  const candidate = response.candidates?.[0];
+  const textParts: string[] = [];
+  for (const part of candidate?.content?.parts ?? []) {
     if (part.inlineData) {
       return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
     }
+    if (part.text) textParts.push(part.text.trim());
+  }
+
+  // Without an image, the text parts usually explain why the model declined.
+  const modelText = textParts.join(' ').trim() || candidate?.finishMessage || undefined;
+  if (SAFETY_FINISH_REASONS.includes(candidate?.finishReason)) {
+    throw new SafetyBlockError(`The model declined for safety reasons (${candidate?.finishReason})`, { modelText });
+  }
+  throw new NoImageError("No image was generated", { modelText });
+};
+
+// The image model returns a single image per call, so each variation is its own
+// request. Variations that fail are dropped as long as at least one succeeds.
+const generateContentImages = async (gemini: GeminiContext, request: GenerateContentParameters, context: string, options: RequestOptions): Promise<string[]> => {
+  const { count = 1, signal, onProgress } = options;
+  const requestWithSignal = { ...request, config: { ...request.config, abortSignal: signal } };
+  onProgress?.('waiting');
+  const results = await Promise.allSettled(
+    Array.from({ length: Math.max(1, count) }, () =>
+      withRetry(async () => processImageResponse(await gemini.getClient().models.generateContent(requestWithSignal)), context, {
+        signal,
+        onRetry: (attempt, maxAttempts) => onProgress?.('retrying', `attempt ${attempt} of ${maxAttempts}`),
+      })
+    )
+  );
+  throwIfAborted(signal);
+  const images: string[] = [];
+  for (const result of results) {
+    if (result.status === 'fulfilled') images.push(result.value);
+  }
+  if (images.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
   }
-  throw new Error("No image was generated. The model might have refused the request.");
+  return images;
 };
 
 
-export const editImageWithText = async (
+const editImageWithText = async (
+  gemini: GeminiContext,
   prompt: string,
   originalImageBase64: string,
   maskImageBase64: string,
   originalMimeType: string,
-  systemContext?: string
-): Promise<string> => {
+  systemContext?: string,
+  options: RequestOptions = {}
+): Promise<string[]> => {
   try {
     const baseInstruction = `You are an expert image editor. The user has provided an image and a selection mask. Modify the original image ONLY in the area specified by the white part of the selection mask. The rest of the image must remain untouched. The user's instruction is: "${prompt}". Output only the final edited image without any additional text.`;
     const finalInstruction = systemContext
         ? `You are an expert in ${systemContext}. ${baseInstruction}`
         : baseInstruction;
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image-preview',
+    return await generateContentImages(gemini, {
+      model: gemini.models.magicFill,
       contents: {
         parts: [
           {
@@ -54,26 +129,22 @@ export const editImageWithText = async (
       config: {
         responseModalities: [Modality.IMAGE, Modality.TEXT],
       },
-    });
-
-    return processImageResponse(response);
+    }, "Failed to edit image", options);
 
   } catch (error) {
-    console.error("Error editing image:", error);
-    if (error instanceof Error) {
-        return Promise.reject(new Error(`Failed to edit image: ${error.message}`));
-    }
-    return Promise.reject(new Error("An unknown error occurred while editing the image."));
+    return Promise.reject(classifyError(error, "Failed to edit image"));
   }
 };
 
-export const blendImages = async (
+const blendImages = async (
+  gemini: GeminiContext,
   originalImageBase64: string,
   compositeImageBase64: string,
   maskBase64: string,
   originalMimeType: string,
-  compositeMimeType: string
-): Promise<string> => {
+  compositeMimeType: string,
+  options: RequestOptions = {}
+): Promise<string[]> => {
   try {
     const instruction = `You are an elite AI digital artist and compositor, specializing in creating hyper-realistic images that are indistinguishable from real photographs.
 
@@ -106,8 +177,8 @@ Execute the following steps with artistic precision:
 
 Output only the final, photorealistic image. Do not include any text.`;
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
+    return await generateContentImages(gemini, {
+        model: gemini.models.insert,
         contents: {
             parts: [
                 { text: instruction },
@@ -119,23 +190,19 @@ Output only the final, photorealistic image. Do not include any text.`;
         config: {
             responseModalities: [Modality.IMAGE, Modality.TEXT],
         },
-    });
-
-    return processImageResponse(response);
+    }, "Failed to blend image", options);
   } catch (error) {
-    console.error("Error blending image:", error);
-    if (error instanceof Error) {
-        return Promise.reject(new Error(`Failed to blend image: ${error.message}`));
-    }
-    return Promise.reject(new Error("An unknown error occurred while blending the image."));
+    return Promise.reject(classifyError(error, "Failed to blend image"));
   }
 };
 
-export const expandImage = async (
+const expandImage = async (
+  gemini: GeminiContext,
   prompt: string,
   compositeImageBase64: string,
-  compositeMimeType: string
-): Promise<string> => {
+  compositeMimeType: string,
+  options: RequestOptions = {}
+): Promise<string[]> => {
   try {
     const instruction = `You are an expert AI image editor specializing in outpainting (image expansion). You will be given a composite image that has an original photo in the center and a solid gray (#808080) area around it.
 
@@ -153,8 +220,8 @@ Your task is to do two things simultaneously:
 4.  **INTELLIGENT INTERPRETATION:** Interpret the user's prompt ("${prompt}") as instructions for what to add *within the context of the extended scene*. For example, if the original image is a backyard and the prompt is "a dog", you add a dog that logically belongs in that backyard, matching the lighting and style.
 5.  **OUTPUT:** Provide only the final, complete image as your output. No text, no conversation.`;
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
+    return await generateContentImages(gemini, {
+        model: gemini.models.expand,
         contents: {
             parts: [
                 { text: instruction },
@@ -164,43 +231,157 @@ Your task is to do two things simultaneously:
         config: {
             responseModalities: [Modality.IMAGE, Modality.TEXT],
         },
-    });
-
-    return processImageResponse(response);
+    }, "Failed to expand image", options);
 
   } catch (error) {
-    console.error("Error expanding image:", error);
-    if (error instanceof Error) {
-        return Promise.reject(new Error(`Failed to expand image: ${error.message}`));
-    }
-    return Promise.reject(new Error("An unknown error occurred while expanding the image."));
+    return Promise.reject(classifyError(error, "Failed to expand image"));
   }
 };
 
 
-export const generateImage = async (prompt: string): Promise<string> => {
+const generateImage = async (gemini: GeminiContext, prompt: string, options: GenerateImageOptions = {}): Promise<string[]> => {
   try {
-    const response = await ai.models.generateImages({
-      model: 'imagen-4.0-generate-001',
+    options.onProgress?.('waiting');
+    const response = await withRetry(() => gemini.getClient().models.generateImages({
+      model: gemini.models.generate,
       prompt: prompt,
       config: {
-        numberOfImages: 1,
-        outputMimeType: 'image/png',
-        aspectRatio: '1:1',
+        numberOfImages: options.count ?? 1,
+        outputMimeType: options.outputMimeType ?? 'image/png',
+        aspectRatio: options.aspectRatio ?? '1:1',
+        negativePrompt: options.negativePrompt || undefined,
+        personGeneration: options.personGeneration ? PERSON_GENERATION[options.personGeneration] : undefined,
+        includeRaiReason: true,
+        abortSignal: options.signal,
       },
+    }), "Failed to generate image", {
+      signal: options.signal,
+      onRetry: (attempt, maxAttempts) => options.onProgress?.('retrying', `attempt ${attempt} of ${maxAttempts}`),
     });
 
-    if (response.generatedImages && response.generatedImages.length > 0) {
-      const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-      return `data:image/png;base64,${base64ImageBytes}`;
+    const images = (response.generatedImages ?? [])
+      .filter(generated => generated.image?.imageBytes)
+      .map(generated => `data:${generated.image!.mimeType ?? options.outputMimeType ?? 'image/png'};base64,${generated.image!.imageBytes}`);
+    if (images.length > 0) {
+      return images;
     }
 
-    throw new Error("No image was generated by the model. Please try a different prompt.");
+    // Imagen reports filtered images with a reason instead of image bytes.
+    const filteredReason = response.generatedImages?.find(generated => generated.raiFilteredReason)?.raiFilteredReason;
+    if (filteredReason) {
+      throw new SafetyBlockError("The image was filtered by safety checks", { modelText: filteredReason });
+    }
+    throw new NoImageError("No image was generated by the model");
   } catch (error) {
-    console.error("Error generating image:", error);
-    if (error instanceof Error) {
-      return Promise.reject(new Error(`Failed to generate image: ${error.message}`));
+    return Promise.reject(classifyError(error, "Failed to generate image"));
+  }
+};
+
+// Gemini returns boxes as [yMin, xMin, yMax, xMax] on a 0-1000 grid, and each
+// mask as a PNG covering just its box.
+const parseSegments = (text: string): SubjectSegment[] => {
+  const json = text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '');
+  let entries: unknown;
+  try {
+    entries = JSON.parse(json);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(entries)) return [];
+  return entries.flatMap((entry): SubjectSegment[] => {
+    const box = entry?.box_2d;
+    const mask = entry?.mask;
+    if (!Array.isArray(box) || box.length !== 4 || typeof mask !== 'string') return [];
+    const [top, left, bottom, right] = box.map((value: number) => Math.min(Math.max(value / 1000, 0), 1));
+    if (right <= left || bottom <= top) return [];
+    const maskUrl = mask.startsWith('data:') ? mask : `data:image/png;base64,${mask}`;
+    return [{ label: String(entry.label ?? ''), box: { left, top, right, bottom }, maskUrl }];
+  });
+};
+
+const segmentSubject = async (
+  gemini: GeminiContext,
+  target: SubjectTarget,
+  imageBase64: string,
+  mimeType: string,
+  options: RequestOptions = {}
+): Promise<SubjectSegment[]> => {
+  try {
+    const subject = 'phrase' in target
+      ? `"${target.phrase}"`
+      : `the single object at the point [${Math.round(target.point.y * 1000)}, ${Math.round(target.point.x * 1000)}] (given as [y, x] normalized to 0-1000)`;
+    const instruction = `Give the segmentation masks for ${subject}. Output a JSON list of segmentation masks where each entry contains the 2D bounding box in the key "box_2d", the segmentation mask in key "mask", and the text label in the key "label". Use descriptive labels.`;
+
+    options.onProgress?.('waiting');
+    const response = await withRetry(() => gemini.getClient().models.generateContent({
+      model: gemini.models.segment,
+      contents: {
+        parts: [
+          { inlineData: { data: imageBase64, mimeType } },
+          { text: instruction },
+        ],
+      },
+      config: {
+        responseMimeType: 'application/json',
+        // Segmentation is more reliable without thinking.
+        thinkingConfig: { thinkingBudget: 0 },
+        abortSignal: options.signal,
+      },
+    }), "Failed to select the subject", {
+      signal: options.signal,
+      onRetry: (attempt, maxAttempts) => options.onProgress?.('retrying', `attempt ${attempt} of ${maxAttempts}`),
+    });
+
+    const segments = parseSegments(response.text ?? '');
+    if (segments.length === 0) {
+      throw new NoImageError("No matching subject was found");
     }
-    return Promise.reject(new Error("An unknown error occurred while generating the image."));
+    return segments;
+  } catch (error) {
+    return Promise.reject(classifyError(error, "Failed to select the subject"));
   }
-};
\ No newline at end of file
+};
+
+export interface GeminiProviderOptions {
+  // Defaults to the API_KEY from the development environment.
+  apiKey?: string;
+  models?: Partial<ModelSettings>;
+}
+
+// The client is created on first use so the app can start (e.g. with the mock
+// provider) without an API key.
+export const createGeminiProvider = ({ apiKey, models }: GeminiProviderOptions = {}): ImageProvider => {
+  let client: GoogleGenAI | null = null;
+  const getClient = (): GoogleGenAI => {
+    if (!client) {
+      const key = apiKey || process.env.API_KEY;
+      if (!key) {
+        throw new InvalidInputError("No Gemini API key is set. Add one in Settings");
+      }
+      client = new GoogleGenAI({ apiKey: key });
+    }
+    return client;
+  };
+  const gemini: GeminiContext = { getClient, models: { ...DEFAULT_MODELS, ...models } };
+  return {
+    name: 'gemini',
+    editImageWithText: (...args) => editImageWithText(gemini, ...args),
+    blendImages: (...args) => blendImages(gemini, ...args),
+    expandImage: (...args) => expandImage(gemini, ...args),
+    generateImage: (...args) => generateImage(gemini, ...args),
+    segmentSubject: (...args) => segmentSubject(gemini, ...args),
+  };
+};
+
+// Checks that the key is accepted and that every configured model exists.
+export const validateGeminiSettings = async (apiKey: string, models: ModelSettings, signal?: AbortSignal): Promise<void> => {
+  const client = new GoogleGenAI({ apiKey });
+  const uniqueModels = Array.from(new Set(Object.values(models)));
+  try {
+    await Promise.all(uniqueModels.map(model => client.models.get({ model, config: { abortSignal: signal } })));
+  } catch (error) {
+    return Promise.reject(classifyError(error, "The key or a model could not be verified"));
+  }
+};
+
+export const geminiProvider = createGeminiProvider();
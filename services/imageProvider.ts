@@ -0,0 +1,84 @@
+import { geminiProvider, createGeminiProvider, GeminiProviderOptions } from './geminiService';
+import { mockProvider } from './mockService';
+import type { GenerationSettings, ProgressStage, SubjectTarget, SubjectSegment } from '../types';
+
+export type ProviderName = 'gemini' | 'mock';
+
+export interface RequestOptions {
+  // How many candidate images to return.
+  count?: number;
+  // Aborting rejects the request with a CancelledError.
+  signal?: AbortSignal;
+  onProgress?: (stage: ProgressStage, detail?: string) => void;
+}
+
+export type GenerateImageOptions = RequestOptions & Partial<GenerationSettings>;
+
+// Every operation resolves to one or more candidate images as data URLs.
+export interface ImageProvider {
+  name: ProviderName;
+  editImageWithText: (
+    prompt: string,
+    originalImageBase64: string,
+    maskImageBase64: string,
+    originalMimeType: string,
+    systemContext?: string,
+    options?: RequestOptions
+  ) => Promise<string[]>;
+  blendImages: (
+    originalImageBase64: string,
+    compositeImageBase64: string,
+    maskBase64: string,
+    originalMimeType: string,
+    compositeMimeType: string,
+    options?: RequestOptions
+  ) => Promise<string[]>;
+  expandImage: (
+    prompt: string,
+    compositeImageBase64: string,
+    compositeMimeType: string,
+    options?: RequestOptions
+  ) => Promise<string[]>;
+  generateImage: (prompt: string, options?: GenerateImageOptions) => Promise<string[]>;
+  // Finds the subject and returns a mask for each match; `count` is ignored.
+  segmentSubject: (
+    target: SubjectTarget,
+    imageBase64: string,
+    mimeType: string,
+    options?: RequestOptions
+  ) => Promise<SubjectSegment[]>;
+}
+
+const providers: Record<ProviderName, ImageProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// IMAGE_PROVIDER picks the provider explicitly. Without it we fall back to the
+// mock provider whenever no API key was configured, so the app still runs offline.
+const resolveProviderName = (apiKey = process.env.API_KEY): ProviderName => {
+  const configured = process.env.IMAGE_PROVIDER;
+  if (configured === 'gemini' || configured === 'mock') return configured;
+  return apiKey ? 'gemini' : 'mock';
+};
+
+let activeProvider: ImageProvider = providers[resolveProviderName()];
+
+export const getImageProvider = (): ImageProvider => activeProvider;
+
+export const setImageProvider = (name: ProviderName) => {
+  activeProvider = providers[name];
+};
+
+// Rebuilds the Gemini provider from settings entered at runtime and switches to
+// it when a key is available.
+export const configureGemini = (options: GeminiProviderOptions) => {
+  providers.gemini = createGeminiProvider(options);
+  activeProvider = providers[resolveProviderName(options.apiKey || process.env.API_KEY)];
+};
+
+export const editImageWithText: ImageProvider['editImageWithText'] = (...args) => activeProvider.editImageWithText(...args);
+export const blendImages: ImageProvider['blendImages'] = (...args) => activeProvider.blendImages(...args);
+export const expandImage: ImageProvider['expandImage'] = (...args) => activeProvider.expandImage(...args);
+export const generateImage: ImageProvider['generateImage'] = (...args) => activeProvider.generateImage(...args);
+export const segmentSubject: ImageProvider['segmentSubject'] = (...args) => activeProvider.segmentSubject(...args);
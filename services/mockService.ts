@@ -0,0 +1,225 @@
+import type { ImageProvider, RequestOptions, GenerateImageOptions } from "./imageProvider";
+import type { SubjectTarget, SubjectSegment } from "../types";
+import { loadImage, createCanvas, toDataUrl } from "../utils/image";
+import { SafetyBlockError, QuotaError, NetworkError, NoImageError, abortableDelay } from "./errors";
+
+// An offline stand-in for the Gemini provider. Every result is synthesized
+// locally from the inputs and a hash of the prompt, so the same request always
+// produces the same image.
+
+const MOCK_LATENCY_MS = 600;
+const GENERATED_IMAGE_SIZE = 1024;
+
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Paints a striped gradient whose colours are derived from the seed.
+const paintPattern = (ctx: CanvasRenderingContext2D, width: number, height: number, seed: number) => {
+  const hue = seed % 360;
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 55%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 70%, 35%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  const stripe = Math.max(8, Math.round(Math.min(width, height) / 16));
+  ctx.save();
+  ctx.strokeStyle = `hsla(${(hue + 180) % 360}, 60%, 80%, 0.25)`;
+  ctx.lineWidth = stripe / 2;
+  for (let offset = -height; offset < width; offset += stripe * 2) {
+    ctx.beginPath();
+    ctx.moveTo(offset, 0);
+    ctx.lineTo(offset + height, height);
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+const paintLabel = (ctx: CanvasRenderingContext2D, width: number, height: number, text: string) => {
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) / 24));
+  ctx.save();
+  ctx.font = `600 ${fontSize}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.fillRect(0, height - fontSize * 2, width, fontSize * 2);
+  ctx.fillStyle = 'white';
+  ctx.fillText(`[mock] ${text}`, width / 2, height - fontSize / 2, width - fontSize * 2);
+  ctx.restore();
+};
+
+// Prompts containing a marker such as "[mock:safety]" fail the same way the real
+// provider would, so error handling can be exercised offline.
+const simulateFailure = (prompt: string) => {
+  const marker = /\[mock:(\w+)\]/.exec(prompt)?.[1];
+  switch (marker) {
+    case 'safety': throw new SafetyBlockError("The model declined for safety reasons (SAFETY)", { modelText: "I can't create that image." });
+    case 'quota': throw new QuotaError("Failed to process image: quota exceeded");
+    case 'network': throw new NetworkError("Failed to process image: network request failed");
+    case 'no_image': throw new NoImageError("No image was generated", { modelText: "Here is a description instead of an image." });
+  }
+};
+
+const simulateLatency = async ({ signal, onProgress }: RequestOptions) => {
+  onProgress?.('waiting');
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+};
+
+// Renders `count` candidates; each variant index yields a different but stable image.
+const renderVariations = (options: RequestOptions, render: (variant: number) => Promise<string>): Promise<string[]> => {
+  return Promise.all(Array.from({ length: Math.max(1, options.count ?? 1) }, (_, variant) => render(variant)));
+};
+
+export const editImageWithText = async (
+  prompt: string,
+  originalImageBase64: string,
+  maskImageBase64: string,
+  originalMimeType: string,
+  systemContext?: string,
+  options: RequestOptions = {}
+): Promise<string[]> => {
+  await simulateLatency(options);
+  simulateFailure(prompt);
+  const [original, mask] = await Promise.all([
+    loadImage(toDataUrl(originalMimeType, originalImageBase64)),
+    loadImage(toDataUrl('image/png', maskImageBase64)),
+  ]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const { ctx: maskCtx } = createCanvas(width, height);
+  maskCtx.drawImage(mask, 0, 0, width, height);
+  const maskPixels = maskCtx.getImageData(0, 0, width, height).data;
+
+  return renderVariations(options, async (variant) => {
+    // Turn the black/white mask into an alpha mask over the synthesized fill.
+    const { canvas: fillCanvas, ctx: fillCtx } = createCanvas(width, height);
+    paintPattern(fillCtx, width, height, hashString(`${systemContext ?? ''}|${prompt}|${variant}`));
+    const fillData = fillCtx.getImageData(0, 0, width, height);
+    for (let i = 0; i < fillData.data.length; i += 4) {
+      fillData.data[i + 3] = maskPixels[i];
+    }
+    fillCtx.putImageData(fillData, 0, 0);
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(original, 0, 0);
+    ctx.drawImage(fillCanvas, 0, 0);
+    paintLabel(ctx, width, height, prompt);
+    return canvas.toDataURL('image/png');
+  });
+};
+
+export const blendImages = async (
+  originalImageBase64: string,
+  compositeImageBase64: string,
+  maskBase64: string,
+  originalMimeType: string,
+  compositeMimeType: string,
+  options: RequestOptions = {}
+): Promise<string[]> => {
+  await simulateLatency(options);
+  const composite = await loadImage(toDataUrl(compositeMimeType, compositeImageBase64));
+  return renderVariations(options, async (variant) => {
+    const { canvas, ctx } = createCanvas(composite.naturalWidth, composite.naturalHeight);
+    ctx.drawImage(composite, 0, 0);
+    paintLabel(ctx, canvas.width, canvas.height, `blended #${variant + 1}`);
+    return canvas.toDataURL('image/png');
+  });
+};
+
+export const expandImage = async (
+  prompt: string,
+  compositeImageBase64: string,
+  compositeMimeType: string,
+  options: RequestOptions = {}
+): Promise<string[]> => {
+  await simulateLatency(options);
+  simulateFailure(prompt);
+  const composite = await loadImage(toDataUrl(compositeMimeType, compositeImageBase64));
+  const width = composite.naturalWidth;
+  const height = composite.naturalHeight;
+
+  return renderVariations(options, async (variant) => {
+    const { ctx: fillCtx } = createCanvas(width, height);
+    paintPattern(fillCtx, width, height, hashString(`${prompt}|${variant}`));
+    const fillPixels = fillCtx.getImageData(0, 0, width, height).data;
+
+    // Replace the #808080 padding (with a little tolerance for lossy formats).
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(composite, 0, 0);
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+      if (Math.abs(data[i] - 128) <= 6 && Math.abs(data[i + 1] - 128) <= 6 && Math.abs(data[i + 2] - 128) <= 6) {
+        data[i] = fillPixels[i];
+        data[i + 1] = fillPixels[i + 1];
+        data[i + 2] = fillPixels[i + 2];
+      }
+    }
+    ctx.putImageData(imageData, 0, 0);
+    paintLabel(ctx, width, height, prompt);
+    return canvas.toDataURL('image/png');
+  });
+};
+
+export const generateImage = async (prompt: string, options: GenerateImageOptions = {}): Promise<string[]> => {
+  await simulateLatency(options);
+  simulateFailure(prompt);
+  // The long side is always GENERATED_IMAGE_SIZE, like Imagen's outputs.
+  const [ratioWidth, ratioHeight] = (options.aspectRatio ?? '1:1').split(':').map(Number);
+  const width = Math.round(GENERATED_IMAGE_SIZE * Math.min(1, ratioWidth / ratioHeight));
+  const height = Math.round(GENERATED_IMAGE_SIZE * Math.min(1, ratioHeight / ratioWidth));
+  return renderVariations(options, async (variant) => {
+    const { canvas, ctx } = createCanvas(width, height);
+    paintPattern(ctx, width, height, hashString(`${prompt}|${options.negativePrompt ?? ''}|${variant}`));
+    paintLabel(ctx, width, height, prompt);
+    return canvas.toDataURL(options.outputMimeType ?? 'image/png');
+  });
+};
+
+// Subject selection always finds an ellipse: centred for a phrase, or around
+// the clicked point.
+export const segmentSubject = async (
+  target: SubjectTarget,
+  imageBase64: string,
+  mimeType: string,
+  options: RequestOptions = {}
+): Promise<SubjectSegment[]> => {
+  await simulateLatency(options);
+  const label = 'phrase' in target ? target.phrase : 'clicked subject';
+  simulateFailure(label);
+  const image = await loadImage(toDataUrl(mimeType, imageBase64));
+  const { x, y } = 'point' in target ? target.point : { x: 0.5, y: 0.5 };
+  const half = 'point' in target ? 0.2 : 0.25;
+  const box = {
+    left: Math.max(0, x - half),
+    top: Math.max(0, y - half),
+    right: Math.min(1, x + half),
+    bottom: Math.min(1, y + half),
+  };
+  const width = Math.max(1, Math.round((box.right - box.left) * image.naturalWidth));
+  const height = Math.max(1, Math.round((box.bottom - box.top) * image.naturalHeight));
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = 'white';
+  ctx.beginPath();
+  ctx.ellipse(width / 2, height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+  ctx.fill();
+  return [{ label, box, maskUrl: canvas.toDataURL('image/png') }];
+};
+
+export const mockProvider: ImageProvider = {
+  name: 'mock',
+  editImageWithText,
+  blendImages,
+  expandImage,
+  generateImage,
+  segmentSubject,
+};
@@ -0,0 +1,215 @@
+import { Project, ProjectSummary, EditableImage, HistoryEntry, HistoryStepKind, Tool } from '../types';
+import { loadImage, createCanvas } from '../utils/image';
+
+// Projects live in IndexedDB. Full projects (with every history image) and the
+// small summaries shown on the home screen are kept in separate stores so the
+// project list never has to load full-resolution images.
+
+const DB_NAME = 'banana-brush';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const SUMMARIES_STORE = 'summaries';
+const THUMBNAIL_SIZE = 160;
+
+const EXPORT_FORMAT = 'banana-brush-project';
+const EXPORT_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error("Could not open the project database."));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted."));
+  });
+};
+
+const toSummary = ({ id, name, createdAt, updatedAt, thumbnailUrl }: Project): ProjectSummary => ({ id, name, createdAt, updatedAt, thumbnailUrl });
+
+export const createThumbnail = async (imageUrl: string): Promise<string> => {
+  const image = await loadImage(imageUrl);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(image.naturalWidth * scale)), Math.max(1, Math.round(image.naturalHeight * scale)));
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const summaries = await requestToPromise(db.transaction(SUMMARIES_STORE).objectStore(SUMMARIES_STORE).getAll() as IDBRequest<ProjectSummary[]>);
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<Project | undefined> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).get(id) as IDBRequest<Project | undefined>);
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const db = await openDb();
+  const transaction = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).put(project);
+  transaction.objectStore(SUMMARIES_STORE).put(toSummary(project));
+  await transactionDone(transaction);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const transaction = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).delete(id);
+  transaction.objectStore(SUMMARIES_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await getProject(id);
+  if (!project) throw new Error("Project not found.");
+  await saveProject({ ...project, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<Project> => {
+  const project = await getProject(id);
+  if (!project) throw new Error("Project not found.");
+  const now = Date.now();
+  const copy: Project = { ...project, id: crypto.randomUUID(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now };
+  await saveProject(copy);
+  return copy;
+};
+
+// --- Export / import ---
+// Exports are a single JSON file. Files can't be serialized, so each history
+// image is stored as its data URL plus the original file name and type.
+
+interface ExportedImage {
+  url: string;
+  fileName: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+interface ExportedProject extends Omit<Project, 'history'> {
+  history: {
+    entries: (Omit<HistoryEntry, 'image'> & { image: ExportedImage })[];
+    index: number;
+  };
+}
+
+interface ExportedProjectFile {
+  format: string;
+  version: number;
+  project: ExportedProject;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const TOOLS: Tool[] = ['magicFill', 'insert', 'expand'];
+const HISTORY_STEP_KINDS: HistoryStepKind[] = ['upload', 'generate', 'crop', 'adjust', ...TOOLS];
+
+const isDimension = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+// Images must be embedded data URLs; anything else would make the app fetch
+// whatever the file points at.
+const isExportedImage = (value: unknown): value is ExportedImage =>
+  isRecord(value)
+  && typeof value.url === 'string' && value.url.startsWith('data:image/')
+  && typeof value.fileName === 'string'
+  && typeof value.mimeType === 'string'
+  && isDimension(value.width) && isDimension(value.height);
+
+const isExportedEntry = (value: unknown): value is ExportedProject['history']['entries'][number] =>
+  isRecord(value) && typeof value.id === 'string' && HISTORY_STEP_KINDS.includes(value.kind as HistoryStepKind) && isExportedImage(value.image);
+
+// Only the fields a project needs are checked here; importProject copies
+// nothing else out of the file.
+const isExportedProjectFile = (value: unknown): value is ExportedProjectFile => {
+  if (!isRecord(value) || value.format !== EXPORT_FORMAT || typeof value.version !== 'number' || !isRecord(value.project)) return false;
+  const { name, history } = value.project;
+  return typeof name === 'string'
+    && isRecord(history)
+    && typeof history.index === 'number'
+    && Array.isArray(history.entries)
+    && history.entries.length > 0
+    && history.entries.every(isExportedEntry);
+};
+
+const exportImage = ({ url, file, width, height }: EditableImage): ExportedImage => ({ url, fileName: file.name, mimeType: file.type, width, height });
+
+const importImage = async ({ url, fileName, mimeType, width, height }: ExportedImage): Promise<EditableImage> => {
+  const blob = await (await fetch(url)).blob();
+  return { url, file: new File([blob], fileName, { type: mimeType || blob.type }), width, height };
+};
+
+export const exportProject = async (id: string): Promise<Blob> => {
+  const project = await getProject(id);
+  if (!project) throw new Error("Project not found.");
+  const exported: ExportedProject = {
+    ...project,
+    history: {
+      index: project.history.index,
+      entries: project.history.entries.map(entry => ({ ...entry, image: exportImage(entry.image) })),
+    },
+  };
+  return new Blob([JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, project: exported })], { type: 'application/json' });
+};
+
+// Imported projects always get a fresh id so they never overwrite local work.
+export const importProject = async (file: File): Promise<Project> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error("This file is not a valid Banana Brush project.");
+  }
+  if (!isExportedProjectFile(parsed)) {
+    throw new Error("This file is not a valid Banana Brush project.");
+  }
+  if (parsed.version > EXPORT_VERSION) {
+    throw new Error("This project was exported by a newer version of Banana Brush.");
+  }
+  const exported = parsed.project;
+  const entries = await Promise.all(exported.history.entries.map(async ({ id, kind, image }) => ({ id, kind, image: await importImage(image) })));
+  const index = Math.max(0, Math.min(Math.round(exported.history.index), entries.length - 1));
+  const now = Date.now();
+  const project: Project = {
+    id: crypto.randomUUID(),
+    name: exported.name,
+    createdAt: now,
+    updatedAt: now,
+    // Rebuilt rather than trusted, like the images it would otherwise point at.
+    thumbnailUrl: await createThumbnail(entries[index].image.url),
+    history: { entries, index },
+    systemContext: typeof exported.systemContext === 'string' ? exported.systemContext : '',
+    prompt: typeof exported.prompt === 'string' ? exported.prompt : '',
+    tool: TOOLS.includes(exported.tool as Tool) ? exported.tool : null,
+    selection: typeof exported.selection === 'string' ? exported.selection : null,
+  };
+  await saveProject(project);
+  return project;
+};
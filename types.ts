@@ -7,6 +7,134 @@ export enum AppState {
   EXPANDING,
   LOADING,
   RESULT,
+  BATCH,
+  ADJUSTING,
 }
 
-export type Tool = 'magicFill' | 'insert' | 'expand';
\ No newline at end of file
+export type Tool = 'magicFill' | 'insert' | 'expand';
+
+// Placement of an inserted image. x/y are the centre in percent of the base
+// image, scale is a percentage and the angles are in degrees.
+export interface ImageTransform {
+  x: number;
+  y: number;
+  scale: number;
+  rotation: number; // z-axis
+  opacity: number;
+  perspective: number;
+  rotateX: number;
+  rotateY: number;
+}
+export interface EditableImage {
+  url: string;
+  file: File;
+  width: number;
+  height: number;
+}
+
+export type HistoryStepKind = 'upload' | 'generate' | 'crop' | 'adjust' | Tool;
+
+export interface HistoryEntry {
+  id: string;
+  kind: HistoryStepKind;
+  image: EditableImage;
+}
+
+export interface EditHistory {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+export type GenerationAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export type GenerationOutputFormat = 'image/png' | 'image/jpeg';
+
+export type PersonGenerationSetting = 'dont_allow' | 'allow_adult' | 'allow_all';
+
+export interface GenerationSettings {
+  aspectRatio: GenerationAspectRatio;
+  outputMimeType: GenerationOutputFormat;
+  negativePrompt: string;
+  personGeneration: PersonGenerationSetting;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnailUrl: string;
+}
+
+export interface Project extends ProjectSummary {
+  history: EditHistory;
+  systemContext: string;
+  prompt: string;
+  tool: Tool | null;
+  selection: string | null;
+}
+
+// Stages reported while a request is in flight.
+export type ProgressStage = 'preparing' | 'waiting' | 'retrying' | 'post-processing';
+
+// Batch mode applies one operation to many images. 'instruction' edits the
+// whole image from a prompt without a selection.
+export type BatchTool = 'magicFill' | 'expand' | 'instruction';
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  image: EditableImage;
+  status: BatchItemStatus;
+  stage?: ProgressStage;
+  resultUrl?: string;
+  error?: string;
+}
+
+// Saved snippets for the "What's your goal?" context field or a tool prompt.
+// Text may contain {placeholder} variables that are filled in at use time.
+export type PresetKind = 'context' | 'prompt';
+
+export interface Preset {
+  id: string;
+  name: string;
+  kind: PresetKind;
+  text: string;
+}
+
+// Prompt fields that keep their own recent-prompt history.
+export type PromptField = 'magicFill' | 'expand' | 'generate';
+
+// Each tool can run on its own model. 'segment' finds subjects for selections.
+export type ModelTool = Tool | 'generate' | 'segment';
+
+export type ModelSettings = Record<ModelTool, string>;
+
+// Entered in the settings panel and kept in this browser only.
+export interface RuntimeSettings {
+  apiKey: string;
+  models: ModelSettings;
+}
+
+// What subject selection should find: a described object, or whatever is under
+// a point given as 0-1 of the image size.
+export type SubjectTarget = { phrase: string } | { point: { x: number; y: number } };
+
+// One object found by subject selection. The mask covers only the box, and the
+// box is given as 0-1 of the image size.
+export interface SubjectSegment {
+  label: string;
+  box: { left: number; top: number; right: number; bottom: number };
+  maskUrl: string;
+}
+
+// One object placed by Insert Image. Later layers are drawn on top.
+export interface InsertLayer {
+  id: string;
+  url: string;
+  file: File;
+  transform: ImageTransform;
+  // Opaque images can have their background removed.
+  hasAlpha: boolean;
+}
@@ -0,0 +1,96 @@
+import { createCanvas } from './image';
+
+// Local tone and colour adjustments that don't need a model round-trip. The
+// per-pixel work is left to the canvas filter pipeline, which the browser runs
+// natively, so full-size photos don't stall the page.
+
+export interface Adjustments {
+  exposure: number; // stops, -2 to 2
+  contrast: number; // -100 to 100
+  saturation: number; // -100 to 100
+  temperature: number; // -100 (cooler) to 100 (warmer)
+  tint: number; // -100 (green) to 100 (magenta)
+  sharpen: number; // 0 to 100
+}
+
+export const DEFAULT_ADJUSTMENTS: Adjustments = {
+  exposure: 0,
+  contrast: 0,
+  saturation: 0,
+  temperature: 0,
+  tint: 0,
+  sharpen: 0,
+};
+
+export const isNeutralAdjustment = (adjustments: Adjustments) =>
+  (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof Adjustments)[]).every(key => adjustments[key] === DEFAULT_ADJUSTMENTS[key]);
+
+// The strongest white balance shift, as a gain on the affected channels.
+const MAX_WHITE_BALANCE_GAIN = 0.3;
+const MAX_SHARPEN_AMOUNT = 2;
+const SHARPEN_RADIUS = 1;
+// brightness() scales encoded sRGB values, and a gain of 2^(1/2.2) there is
+// roughly one stop in linear light.
+const SRGB_GAMMA = 2.2;
+
+const whiteBalanceGains = ({ temperature, tint }: Adjustments): [number, number, number] => {
+  const warmth = temperature / 100 * MAX_WHITE_BALANCE_GAIN;
+  const magenta = tint / 100 * MAX_WHITE_BALANCE_GAIN;
+  return [(1 + warmth) * (1 + magenta / 2), 1 - magenta, (1 - warmth) * (1 + magenta / 2)];
+};
+
+// Canvases can only multiply by colours up to white, so the brightest channel
+// gain is folded into the brightness and the others become a multiply overlay.
+export const adjustmentFilter = (adjustments: Adjustments): { filter: string; overlay: [number, number, number] | null } => {
+  const gains = whiteBalanceGains(adjustments);
+  const strongest = Math.max(...gains);
+  const brightness = Math.pow(2, adjustments.exposure / SRGB_GAMMA) * strongest;
+  return {
+    filter: `brightness(${brightness}) contrast(${1 + adjustments.contrast / 100}) saturate(${1 + adjustments.saturation / 100})`,
+    overlay: gains.every(gain => gain === strongest) ? null : gains.map(gain => Math.round(gain / strongest * 255)) as [number, number, number],
+  };
+};
+
+// Unsharp mask: each pixel is pushed away from a blurred copy. The blur is a
+// canvas filter and the combining pass runs in a worker.
+const sharpenCanvas = (canvas: HTMLCanvasElement, amount: number) => new Promise<void>((resolve, reject) => {
+  const { width, height } = canvas;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create canvas context");
+  const blur = createCanvas(width, height);
+  blur.ctx.filter = `blur(${SHARPEN_RADIUS}px)`;
+  blur.ctx.drawImage(canvas, 0, 0);
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const blurred = blur.ctx.getImageData(0, 0, width, height).data;
+  const worker = new Worker(new URL('./sharpen.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<Uint8ClampedArray>) => {
+    worker.terminate();
+    ctx.putImageData(new ImageData(e.data, width, height), 0, 0);
+    resolve();
+  };
+  worker.onerror = (e) => {
+    worker.terminate();
+    reject(new Error(e.message || "Could not sharpen the image"));
+  };
+  worker.postMessage({ pixels, blurred, amount }, [pixels.buffer, blurred.buffer]);
+});
+
+// Draws the source at the given size with the adjustments applied.
+export const renderAdjustments = async (source: CanvasImageSource, width: number, height: number, adjustments: Adjustments): Promise<HTMLCanvasElement> => {
+  const { canvas, ctx } = createCanvas(width, height);
+  const { filter, overlay } = adjustmentFilter(adjustments);
+  ctx.filter = filter;
+  ctx.drawImage(source, 0, 0, width, height);
+  ctx.filter = 'none';
+  if (overlay) {
+    ctx.globalCompositeOperation = 'multiply';
+    ctx.fillStyle = `rgb(${overlay.join(', ')})`;
+    ctx.fillRect(0, 0, width, height);
+    // The fill also covered transparent areas, so the source's alpha is put back.
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(source, 0, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+  }
+  if (adjustments.sharpen > 0) await sharpenCanvas(canvas, adjustments.sharpen / 100 * MAX_SHARPEN_AMOUNT);
+  return canvas;
+};
@@ -0,0 +1,71 @@
+import { loadImage, createCanvas, getPixels } from './image';
+
+// Helpers for comparing a result with the image it was made from.
+
+// Changes smaller than this (max over RGB, 0-255) are treated as noise from
+// resizing and encoding.
+const CHANGE_THRESHOLD = 12;
+
+// Redraws `src` on a width x height canvas: at `offset` and its own size when
+// given (e.g. the original inside an expanded result), stretched otherwise.
+// Pixels it doesn't cover stay transparent.
+export const alignImage = async (src: string, width: number, height: number, offset?: { left: number; top: number }): Promise<string> => {
+  const image = await loadImage(src);
+  const { canvas, ctx } = createCanvas(width, height);
+  if (offset) ctx.drawImage(image, offset.left, offset.top);
+  else ctx.drawImage(image, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+};
+
+// Maps 0-1 to a dark-blue -> yellow -> red ramp.
+const heatColour = (t: number): [number, number, number] => {
+  if (t < 0.5) {
+    const k = t / 0.5;
+    return [Math.round(40 + 215 * k), Math.round(60 + 180 * k), Math.round(200 * (1 - k))];
+  }
+  const k = (t - 0.5) / 0.5;
+  return [255, Math.round(240 * (1 - k)), 0];
+};
+
+// Colours each pixel by how much it changed between two same-size images.
+// Pixels that `before` doesn't cover (new canvas area) are left clear.
+export const differenceHeatmap = (before: Uint8ClampedArray, after: Uint8ClampedArray): { heat: Uint8ClampedArray; changedShare: number } => {
+  const heat = new Uint8ClampedArray(after.length);
+  let compared = 0;
+  let changed = 0;
+  for (let i = 0; i < after.length; i += 4) {
+    if (before[i + 3] === 0) continue;
+    compared++;
+    const difference = Math.max(Math.abs(after[i] - before[i]), Math.abs(after[i + 1] - before[i + 1]), Math.abs(after[i + 2] - before[i + 2]));
+    if (difference < CHANGE_THRESHOLD) continue;
+    changed++;
+    const [r, g, b] = heatColour(Math.min(1, difference / 128));
+    heat[i] = r;
+    heat[i + 1] = g;
+    heat[i + 2] = b;
+    heat[i + 3] = 200;
+  }
+  return { heat, changedShare: compared > 0 ? changed / compared : 0 };
+};
+
+// The heatmap drawn over a dimmed greyscale copy of `afterUrl`.
+export const renderDifferenceHeatmap = async (beforeUrl: string, afterUrl: string): Promise<{ url: string; changedShare: number }> => {
+  const [before, after] = await Promise.all([loadImage(beforeUrl), loadImage(afterUrl)]);
+  const width = after.naturalWidth;
+  const height = after.naturalHeight;
+  const afterPixels = getPixels(after, width, height);
+  const { heat, changedShare } = differenceHeatmap(getPixels(before, width, height), afterPixels);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  const base = ctx.createImageData(width, height);
+  for (let i = 0; i < afterPixels.length; i += 4) {
+    const grey = (afterPixels[i] * 0.3 + afterPixels[i + 1] * 0.59 + afterPixels[i + 2] * 0.11) * 0.4;
+    const alpha = heat[i + 3] / 255;
+    base.data[i] = grey + (heat[i] - grey) * alpha;
+    base.data[i + 1] = grey + (heat[i + 1] - grey) * alpha;
+    base.data[i + 2] = grey + (heat[i + 2] - grey) * alpha;
+    base.data[i + 3] = 255;
+  }
+  ctx.putImageData(base, 0, 0);
+  return { url: canvas.toDataURL('image/png'), changedShare };
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { blendPixels, buildBlendMask, buildSeamWeights } from './composite';
+import { maskToAlpha } from './mask';
+
+// RGBA mask pixels (white = selected) for a square selection in a size x size image.
+const squareMask = (size: number, from: number, to: number) => {
+  const mask = new Uint8ClampedArray(size * size);
+  for (let y = from; y < to; y++) mask.fill(255, y * size + from, y * size + to);
+  return { mask, pixels: maskToAlpha(mask).map((value, i) => i % 4 === 3 ? 255 : mask[i >> 2]) };
+};
+
+describe('buildBlendMask', () => {
+  it('uses the mask as is without a feather', () => {
+    const { mask, pixels } = squareMask(10, 3, 7);
+    expect(buildBlendMask(pixels, 10, 10, 0)).toEqual(mask);
+  });
+
+  it.each([2, 5, 12, 20])('gives every pixel outside the mask zero weight with a %dpx feather', feather => {
+    const { mask, pixels } = squareMask(160, 20, 140);
+    const weights = buildBlendMask(pixels, 160, 160, feather);
+    for (let i = 0; i < mask.length; i++) {
+      if (!mask[i]) expect(weights[i]).toBe(0);
+    }
+    // The centre of the selection is still fully replaced, and the edge is soft.
+    expect(weights[80 * 160 + 80]).toBe(255);
+    expect(weights[80 * 160 + 20]).toBeLessThan(255);
+  });
+
+  it('keeps a selection touching the image edge', () => {
+    const { pixels } = squareMask(40, 0, 40);
+    expect(buildBlendMask(pixels, 40, 40, 12).every(weight => weight === 255)).toBe(true);
+  });
+});
+
+describe('blendPixels', () => {
+  it('mixes each pixel by its weight', () => {
+    const original = new Uint8ClampedArray([0, 0, 0, 255, 0, 0, 0, 255, 0, 0, 0, 255]);
+    const edited = new Uint8ClampedArray([200, 100, 50, 255, 200, 100, 50, 255, 200, 100, 50, 255]);
+    expect(Array.from(blendPixels(original, edited, new Uint8ClampedArray([0, 255, 51])))).toEqual([0, 0, 0, 255, 200, 100, 50, 255, 40, 20, 10, 255]);
+  });
+});
+
+describe('buildSeamWeights', () => {
+  it('keeps the original at full strength except for a ramp at padded edges', () => {
+    const padding = { top: 0, right: 0, bottom: 0, left: 2 };
+    const weights = buildSeamWeights(8, 1, padding, 6, 1, 4);
+    expect(Array.from(weights)).toEqual([0, 0, 32, 96, 159, 223, 255, 255]);
+  });
+});
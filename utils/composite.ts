@@ -0,0 +1,98 @@
+import { loadImage, createCanvas, toDataUrl, getPixels, Padding } from './image';
+import { shrinkMask, featherMask, featherReach } from './mask';
+
+// Builds the blend weights for a selection mask. The mask is eroded by the
+// feather's full reach first, so the soft edge falls inside the selection and
+// pixels outside it keep their original values exactly.
+export const buildBlendMask = (maskPixels: Uint8ClampedArray, width: number, height: number, featherPixels: number): Uint8ClampedArray => {
+  const mask = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < mask.length; i++) mask[i] = maskPixels[i * 4];
+  if (featherPixels <= 0) return mask;
+  return featherMask(shrinkMask(mask, width, height, featherReach(featherPixels)), width, height, featherPixels);
+};
+
+// Blends `edited` over `original` using per-pixel weights (0-255).
+export const blendPixels = (original: Uint8ClampedArray, edited: Uint8ClampedArray, weights: Uint8ClampedArray): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(original.length);
+  for (let i = 0; i < weights.length; i++) {
+    const alpha = weights[i] / 255;
+    for (let c = 0; c < 4; c++) {
+      const index = i * 4 + c;
+      out[index] = original[index] + (edited[index] - original[index]) * alpha;
+    }
+  }
+  return out;
+};
+
+// Maps a model result back onto the original image: the result is resized to
+// the original dimensions and only the masked region is kept.
+export const compositeMaskedResult = async (
+  originalUrl: string,
+  resultUrl: string,
+  maskBase64: string,
+  featherPixels: number
+): Promise<string> => {
+  const [original, result, mask] = await Promise.all([
+    loadImage(originalUrl),
+    loadImage(resultUrl),
+    loadImage(toDataUrl('image/png', maskBase64)),
+  ]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const weights = buildBlendMask(getPixels(mask, width, height), width, height, featherPixels);
+  const blended = blendPixels(getPixels(original, width, height), getPixels(result, width, height), weights);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.putImageData(new ImageData(blended, width, height), 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Blend weights that keep the original inside an expand result: full strength
+// over the original's rectangle, fading out across `seamPixels` at each padded
+// edge so the original meets the generated border without a hard line.
+export const buildSeamWeights = (
+  width: number,
+  height: number,
+  padding: Padding,
+  innerWidth: number,
+  innerHeight: number,
+  seamPixels: number
+): Uint8ClampedArray => {
+  const weights = new Uint8ClampedArray(width * height);
+  const ramp = (distance: number, padded: number) => padded > 0 && seamPixels > 0 ? Math.min(1, (distance + 0.5) / seamPixels) : 1;
+  for (let y = 0; y < innerHeight; y++) {
+    const vertical = Math.min(ramp(y, padding.top), ramp(innerHeight - 1 - y, padding.bottom));
+    for (let x = 0; x < innerWidth; x++) {
+      const weight = Math.min(vertical, ramp(x, padding.left), ramp(innerWidth - 1 - x, padding.right));
+      weights[(y + padding.top) * width + x + padding.left] = Math.round(weight * 255);
+    }
+  }
+  return weights;
+};
+
+// Maps an expand result back onto the padded canvas: the result is resized to
+// the canvas and the original pixels are pasted back at their offset.
+export const compositeExpandResult = async (
+  originalUrl: string,
+  resultUrl: string,
+  padding: Padding,
+  seamPixels: number
+): Promise<string> => {
+  const [original, result] = await Promise.all([loadImage(originalUrl), loadImage(resultUrl)]);
+  const innerWidth = original.naturalWidth;
+  const innerHeight = original.naturalHeight;
+  const width = innerWidth + padding.left + padding.right;
+  const height = innerHeight + padding.top + padding.bottom;
+
+  const { ctx: placedCtx } = createCanvas(width, height);
+  placedCtx.drawImage(original, padding.left, padding.top);
+  const placed = placedCtx.getImageData(0, 0, width, height).data;
+
+  const weights = buildSeamWeights(width, height, padding, innerWidth, innerHeight, seamPixels);
+  const blended = blendPixels(getPixels(result, width, height), placed, weights);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.putImageData(new ImageData(blended, width, height), 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { NO_PADDING, expandedSize, paddingForAspectRatio, paddingForTargetSize, planExpandPasses } from './expand';
+import type { Padding } from './image';
+
+const total = (passes: Padding[]): Padding => passes.reduce((sum, pass) => ({
+  top: sum.top + pass.top,
+  right: sum.right + pass.right,
+  bottom: sum.bottom + pass.bottom,
+  left: sum.left + pass.left,
+}), NO_PADDING);
+
+describe('paddingForTargetSize', () => {
+  it('centres the image, giving odd pixels to the bottom and right', () => {
+    expect(paddingForTargetSize(100, 50, 105, 53)).toEqual({ top: 1, bottom: 2, left: 2, right: 3 });
+  });
+
+  it('never shrinks the image', () => {
+    expect(paddingForTargetSize(100, 50, 80, 40)).toEqual(NO_PADDING);
+  });
+});
+
+describe('paddingForAspectRatio', () => {
+  it('widens images that are too tall', () => {
+    const padding = paddingForAspectRatio(90, 90, '16:9');
+    expect(padding).toEqual({ top: 0, bottom: 0, left: 35, right: 35 });
+    expect(expandedSize(90, 90, padding)).toEqual({ width: 160, height: 90 });
+  });
+
+  it('heightens images that are too wide', () => {
+    expect(expandedSize(160, 90, paddingForAspectRatio(160, 90, '1:1'))).toEqual({ width: 160, height: 160 });
+  });
+
+  it('leaves images that already match alone', () => {
+    expect(paddingForAspectRatio(400, 500, '4:5')).toEqual(NO_PADDING);
+  });
+
+  it('ignores ratios it cannot parse', () => {
+    expect(paddingForAspectRatio(100, 100, 'wide')).toEqual(NO_PADDING);
+    expect(paddingForAspectRatio(100, 100, '0:1')).toEqual(NO_PADDING);
+  });
+});
+
+describe('planExpandPasses', () => {
+  it('needs a single pass for small expansions', () => {
+    const padding = { top: 10, right: 20, bottom: 30, left: 40 };
+    expect(planExpandPasses(100, 100, padding)).toEqual([padding]);
+  });
+
+  it('needs no passes without padding', () => {
+    expect(planExpandPasses(100, 100, NO_PADDING)).toEqual([]);
+  });
+
+  it('splits large expansions so no pass more than doubles the image', () => {
+    const padding = { top: 0, right: 250, bottom: 0, left: 50 };
+    const passes = planExpandPasses(100, 100, padding);
+    expect(passes).toEqual([
+      { top: 0, right: 83, bottom: 0, left: 17 },
+      { top: 0, right: 167, bottom: 0, left: 33 },
+    ]);
+  });
+
+  it('adds up to the requested padding with every pass within the growth limit', () => {
+    const padding = { top: 1000, right: 37, bottom: 5, left: 800 };
+    const passes = planExpandPasses(64, 48, padding);
+    expect(total(passes)).toEqual(padding);
+    let size = { width: 64, height: 48 };
+    for (const pass of passes) {
+      expect(pass.left + pass.right).toBeLessThanOrEqual(size.width);
+      expect(pass.top + pass.bottom).toBeLessThanOrEqual(size.height);
+      size = expandedSize(size.width, size.height, pass);
+    }
+    expect(size).toEqual(expandedSize(64, 48, padding));
+  });
+
+  it('still finishes for a one-pixel image', () => {
+    const passes = planExpandPasses(1, 1, { top: 3, right: 3, bottom: 3, left: 3 });
+    expect(total(passes)).toEqual({ top: 3, right: 3, bottom: 3, left: 3 });
+    expect(passes.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,67 @@
+import type { Padding } from './image';
+
+// Sizing for Magic Expand. Large expansions are split into several passes,
+// because the model fills a border convincingly but not a canvas that is
+// mostly empty.
+
+export const NO_PADDING: Padding = { top: 0, right: 0, bottom: 0, left: 0 };
+
+// Each pass may at most double the image along either axis.
+const MAX_PASS_GROWTH = 1;
+
+export const EXPAND_ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:5', '3:1'];
+
+export const expandedSize = (width: number, height: number, { top, right, bottom, left }: Padding) => ({
+  width: width + left + right,
+  height: height + top + bottom,
+});
+
+// Centres the image on a canvas of at least the target size.
+export const paddingForTargetSize = (width: number, height: number, targetWidth: number, targetHeight: number): Padding => {
+  const extraWidth = Math.max(0, Math.round(targetWidth) - width);
+  const extraHeight = Math.max(0, Math.round(targetHeight) - height);
+  return {
+    top: Math.floor(extraHeight / 2),
+    bottom: Math.ceil(extraHeight / 2),
+    left: Math.floor(extraWidth / 2),
+    right: Math.ceil(extraWidth / 2),
+  };
+};
+
+// The smallest canvas with the given ratio (e.g. "16:9") that still holds the whole image.
+export const paddingForAspectRatio = (width: number, height: number, ratio: string): Padding => {
+  const [ratioWidth, ratioHeight] = ratio.split(':').map(Number);
+  if (!(ratioWidth > 0 && ratioHeight > 0)) return NO_PADDING;
+  const target = ratioWidth / ratioHeight;
+  return width / height < target
+    ? paddingForTargetSize(width, height, height * target, height)
+    : paddingForTargetSize(width, height, width, width / target);
+};
+
+// Splits `amount` between two sides in proportion to what each still needs.
+const splitGrowth = (amount: number, first: number, second: number): [number, number] => {
+  const total = first + second;
+  if (total <= amount) return [first, second];
+  const firstShare = Math.round(amount * first / total);
+  return [firstShare, amount - firstShare];
+};
+
+// The padding for each outpainting pass, in order. Every pass grows the
+// current image by at most MAX_PASS_GROWTH along each axis.
+export const planExpandPasses = (width: number, height: number, padding: Padding): Padding[] => {
+  const remaining = { ...padding };
+  const passes: Padding[] = [];
+  let current = { width, height };
+  while (remaining.top + remaining.right + remaining.bottom + remaining.left > 0) {
+    const [left, right] = splitGrowth(Math.max(1, Math.floor(current.width * MAX_PASS_GROWTH)), remaining.left, remaining.right);
+    const [top, bottom] = splitGrowth(Math.max(1, Math.floor(current.height * MAX_PASS_GROWTH)), remaining.top, remaining.bottom);
+    const pass = { top, right, bottom, left };
+    passes.push(pass);
+    remaining.top -= top;
+    remaining.right -= right;
+    remaining.bottom -= bottom;
+    remaining.left -= left;
+    current = expandedSize(current.width, current.height, pass);
+  }
+  return passes;
+};
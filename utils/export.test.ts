@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { embedMetadata, exportExtension, formatExportName } from './export';
+import type { EditMetadata } from './export';
+import { crc32 } from './zip';
+import { decodePng, encodePng } from '../headless/png';
+
+const METADATA: EditMetadata = {
+  tool: 'magicFill',
+  prompt: 'a "red" hat & <scarf>',
+  model: 'test-model',
+};
+
+const ascii = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+const utf8 = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+// PNG chunks, checking every length and CRC on the way.
+const pngChunks = (png: Uint8Array) => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = view.getUint32(offset);
+    expect(view.getUint32(offset + 8 + length) >>> 0).toBe(crc32(png.subarray(offset + 4, offset + 8 + length)) >>> 0);
+    chunks.push({ type: ascii(png.subarray(offset + 4, offset + 8)), data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+// Keyword and text of an uncompressed iTXt chunk with no language tag.
+const parseItxt = (data: Uint8Array) => {
+  const end = data.indexOf(0);
+  expect(Array.from(data.subarray(end, end + 5))).toEqual([0, 0, 0, 0, 0]);
+  return [ascii(data.subarray(0, end)), utf8(data.subarray(end + 5))];
+};
+
+// RIFF chunks after the WEBP tag, checking the file size and padding.
+const riffChunks = (webp: Uint8Array) => {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  expect(ascii(webp.subarray(0, 4))).toBe('RIFF');
+  expect(view.getUint32(4, true)).toBe(webp.length - 8);
+  expect(ascii(webp.subarray(8, 12))).toBe('WEBP');
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  for (let offset = 12; offset < webp.length;) {
+    const length = view.getUint32(offset + 4, true);
+    chunks.push({ type: ascii(webp.subarray(offset, offset + 4)), data: webp.subarray(offset + 8, offset + 8 + length) });
+    offset += 8 + length + (length & 1);
+  }
+  return chunks;
+};
+
+const riffFile = (...chunks: [string, number[]][]) => {
+  const body = chunks.flatMap(([type, data]) => [...Array.from(type, c => c.charCodeAt(0)), data.length & 0xff, (data.length >> 8) & 0xff, 0, 0, ...data, ...(data.length & 1 ? [0] : [])]);
+  const size = body.length + 4;
+  return new Uint8Array([...Array.from('RIFF', c => c.charCodeAt(0)), size & 0xff, (size >> 8) & 0xff, 0, 0, ...Array.from('WEBP', c => c.charCodeAt(0)), ...body]);
+};
+
+const readUint24 = (data: Uint8Array, offset: number) => data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16);
+
+describe('formatExportName', () => {
+  const values = { name: 'holiday.photo.jpg', tool: 'expand', width: 1024, height: 768 };
+
+  it('fills in the template', () => {
+    expect(formatExportName('{name}-{tool}-{width}x{height}-{date}', values, new Date('2025-03-04T12:00:00Z'))).toBe('holiday.photo-expand-1024x768-2025-03-04');
+  });
+
+  it('keeps unknown tokens and replaces characters file systems reject', () => {
+    expect(formatExportName('{name}/{size}:"x"', values)).toBe('holiday.photo-{size}-x-');
+  });
+
+  it('falls back to a default name', () => {
+    expect(formatExportName('  ', values)).toBe('image');
+  });
+});
+
+describe('exportExtension', () => {
+  it('maps formats to file extensions', () => {
+    expect(exportExtension('image/png')).toBe('png');
+    expect(exportExtension('image/jpeg')).toBe('jpg');
+    expect(exportExtension('image/webp')).toBe('webp');
+  });
+});
+
+describe('embedMetadata for PNG', () => {
+  const png = encodePng({ width: 2, height: 2, data: new Uint8ClampedArray(16).fill(90) });
+
+  it('adds iTXt chunks before IEND that read back', () => {
+    const embedded = embedMetadata(png, 'image/png', { ...METADATA, prompt: 'un chapeau rouge 🎩' });
+    const chunks = pngChunks(embedded);
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'IDAT', 'iTXt', 'iTXt', 'iTXt', 'iTXt', 'IEND']);
+    expect(chunks.filter(c => c.type === 'iTXt').map(c => parseItxt(c.data))).toEqual([
+      ['Software', 'Banana Brush'],
+      ['Tool', 'magicFill'],
+      ['Prompt', 'un chapeau rouge 🎩'],
+      ['Model', 'test-model'],
+    ]);
+  });
+
+  it('includes the system context when there is one', () => {
+    const chunks = pngChunks(embedMetadata(png, 'image/png', { ...METADATA, systemContext: 'product shot' }));
+    expect(chunks.filter(c => c.type === 'iTXt').map(c => parseItxt(c.data)[0])).toContain('SystemContext');
+  });
+
+  it('leaves the pixels intact', () => {
+    expect(decodePng(embedMetadata(png, 'image/png', METADATA))).toEqual(decodePng(png));
+  });
+});
+
+describe('embedMetadata for JPEG', () => {
+  const SOI = [0xff, 0xd8];
+  const APP0 = [0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00];
+  const REST = [0xff, 0xdb, 0x00, 0x03, 0x00, 0xff, 0xd9];
+
+  const readApp1 = (jpeg: Uint8Array, offset: number) => {
+    expect(Array.from(jpeg.subarray(offset, offset + 2))).toEqual([0xff, 0xe1]);
+    const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+    return { payload: jpeg.subarray(offset + 4, offset + 2 + length), end: offset + 2 + length };
+  };
+
+  it('adds an XMP segment after the JFIF header', () => {
+    const embedded = embedMetadata(new Uint8Array([...SOI, ...APP0, ...REST]), 'image/jpeg', METADATA);
+    expect(Array.from(embedded.subarray(0, 2 + APP0.length))).toEqual([...SOI, ...APP0]);
+    const { payload, end } = readApp1(embedded, 2 + APP0.length);
+    expect(Array.from(embedded.subarray(end))).toEqual(REST);
+
+    const namespace = 'http://ns.adobe.com/xap/1.0/\0';
+    expect(ascii(payload.subarray(0, namespace.length))).toBe(namespace);
+    const xmp = utf8(payload.subarray(namespace.length));
+    expect(xmp).toMatch(/^<\?xpacket begin="\uFEFF"/);
+    expect(xmp).toMatch(/<\?xpacket end="w"\?>$/);
+    expect(xmp).toContain('xmlns:bb="urn:banana-brush:xmp:1.0:"');
+    expect(xmp).toContain('xmp:CreatorTool="Banana Brush"');
+    expect(xmp).toContain('bb:Tool="magicFill"');
+    expect(xmp).toContain('bb:Prompt="a &quot;red&quot; hat &amp; &lt;scarf&gt;"');
+    expect(xmp).not.toContain('bb:SystemContext');
+  });
+
+  it('adds the segment straight after SOI when there is no JFIF header', () => {
+    const embedded = embedMetadata(new Uint8Array([...SOI, ...REST]), 'image/jpeg', METADATA);
+    const { end } = readApp1(embedded, 2);
+    expect(Array.from(embedded.subarray(end))).toEqual(REST);
+  });
+
+  it('refuses metadata that does not fit in one segment', () => {
+    expect(() => embedMetadata(new Uint8Array([...SOI, ...REST]), 'image/jpeg', { ...METADATA, prompt: 'x'.repeat(70000) })).toThrow('too large');
+  });
+});
+
+describe('embedMetadata for WebP', () => {
+  const xmpOf = (chunks: { type: string; data: Uint8Array }[]) => utf8(chunks[chunks.length - 1].data);
+
+  it('converts lossless files to the extended layout', () => {
+    // VP8L header: signature, then 14-bit width - 1, 14-bit height - 1 and the alpha bit.
+    const bits = (300 - 1) | ((200 - 1) << 14) | (1 << 28);
+    const vp8l = [0x2f, bits & 0xff, (bits >> 8) & 0xff, (bits >> 16) & 0xff, (bits >>> 24) & 0xff, 0, 0];
+    const chunks = riffChunks(embedMetadata(riffFile(['VP8L', vp8l]), 'image/webp', METADATA));
+    expect(chunks.map(c => c.type)).toEqual(['VP8X', 'VP8L', 'XMP ']);
+    const [vp8x] = chunks;
+    expect(vp8x.data).toHaveLength(10);
+    expect(vp8x.data[0]).toBe(0x04 | 0x10);
+    expect(readUint24(vp8x.data, 4)).toBe(299);
+    expect(readUint24(vp8x.data, 7)).toBe(199);
+    expect(Array.from(chunks[1].data)).toEqual(vp8l);
+    expect(xmpOf(chunks)).toContain('bb:Prompt=');
+  });
+
+  it('converts lossy files to the extended layout', () => {
+    // VP8 key frame: frame tag, start code, then 14-bit width and height.
+    const vp8 = [0x10, 0x02, 0x00, 0x9d, 0x01, 0x2a, 640 & 0xff, 640 >> 8, 480 & 0xff, 480 >> 8, 0];
+    const chunks = riffChunks(embedMetadata(riffFile(['VP8 ', vp8]), 'image/webp', METADATA));
+    expect(chunks.map(c => c.type)).toEqual(['VP8X', 'VP8 ', 'XMP ']);
+    expect(chunks[0].data[0]).toBe(0x04);
+    expect(readUint24(chunks[0].data, 4)).toBe(639);
+    expect(readUint24(chunks[0].data, 7)).toBe(479);
+    expect(Array.from(chunks[1].data)).toEqual(vp8);
+  });
+
+  it('sets the XMP flag on files that are already extended', () => {
+    const vp8x = [0x10, 0, 0, 0, 9, 0, 0, 4, 0, 0];
+    const chunks = riffChunks(embedMetadata(riffFile(['VP8X', vp8x], ['ALPH', [1, 2, 3]], ['VP8 ', [0, 0]]), 'image/webp', METADATA));
+    expect(chunks.map(c => c.type)).toEqual(['VP8X', 'ALPH', 'VP8 ', 'XMP ']);
+    expect(Array.from(chunks[0].data)).toEqual([0x14, ...vp8x.slice(1)]);
+    expect(Array.from(chunks[1].data)).toEqual([1, 2, 3]);
+  });
+
+  it('rejects layouts it does not know', () => {
+    expect(() => embedMetadata(riffFile(['ABCD', [0, 0]]), 'image/webp', METADATA)).toThrow('unknown layout');
+  });
+});
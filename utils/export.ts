@@ -0,0 +1,203 @@
+import { loadImage, createCanvas } from './image';
+import { crc32 } from './zip';
+
+// Rendering downloads in a chosen format and size, with the edit that produced
+// them embedded: as iTXt chunks in PNG and as an XMP packet in JPEG and WebP.
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  quality: number; // 1-100, JPEG and WebP only
+  scale: number;
+  // Supports {name}, {tool}, {date}, {width} and {height}.
+  filenameTemplate: string;
+  embedMetadata: boolean;
+  includeMask: boolean;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'image/png',
+  quality: 92,
+  scale: 1,
+  filenameTemplate: '{name}-{tool}',
+  embedMetadata: true,
+  includeMask: false,
+};
+
+export interface EditMetadata {
+  tool: string;
+  prompt: string;
+  model: string;
+  systemContext?: string;
+}
+
+const SOFTWARE = 'Banana Brush';
+// A URN, so the namespace doesn't depend on a domain staying with the project.
+const XMP_NAMESPACE = 'urn:banana-brush:xmp:1.0:';
+
+export const exportExtension = (format: ExportFormat) => format === 'image/jpeg' ? 'jpg' : format.split('/')[1];
+
+export const formatExportName = (template: string, values: { name: string; tool: string; width: number; height: number }, date = new Date()): string => {
+  const tokens: Record<string, string> = {
+    name: values.name.replace(/\.[^.]+$/, ''),
+    tool: values.tool,
+    date: date.toISOString().slice(0, 10),
+    width: String(values.width),
+    height: String(values.height),
+  };
+  const name = template
+    .replace(/\{(\w+)\}/g, (token, key: string) => tokens[key] ?? token)
+    .replace(/[\\/:*?"<>|]+/g, '-')
+    .trim();
+  return name || 'image';
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const metadataEntries = (metadata: EditMetadata): [string, string][] => [
+  ['Software', SOFTWARE],
+  ['Tool', metadata.tool],
+  ['Prompt', metadata.prompt],
+  ['Model', metadata.model],
+  ['SystemContext', metadata.systemContext ?? ''],
+];
+
+// --- PNG ---
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+// An uncompressed UTF-8 iTXt chunk.
+const itxtChunk = (keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  return pngChunk('iTXt', concat([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+};
+
+const embedPngText = (png: Uint8Array, metadata: EditMetadata): Uint8Array => {
+  // IEND is always the last 12 bytes.
+  const end = png.length - 12;
+  const chunks = metadataEntries(metadata).filter(([, value]) => value).map(([key, value]) => itxtChunk(key, value));
+  return concat([png.subarray(0, end), ...chunks, png.subarray(end)]);
+};
+
+// --- XMP (JPEG and WebP) ---
+
+const escapeXml = (value: string) => value.replace(/[<>&"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' }[c] as string));
+
+const xmpPacket = (metadata: EditMetadata): Uint8Array => {
+  const attributes = metadataEntries(metadata)
+    .filter(([key, value]) => key !== 'Software' && value)
+    .map(([key, value]) => ` bb:${key}="${escapeXml(value)}"`)
+    .join('');
+  return new TextEncoder().encode(
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    `<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:bb="${XMP_NAMESPACE}" xmp:CreatorTool="${SOFTWARE}"${attributes}/>` +
+    '</rdf:RDF></x:xmpmeta><?xpacket end="w"?>'
+  );
+};
+
+// Adds an APP1 XMP segment after SOI and the JFIF header, if there is one.
+const embedJpegXmp = (jpeg: Uint8Array, metadata: EditMetadata): Uint8Array => {
+  const payload = concat([new TextEncoder().encode('http://ns.adobe.com/xap/1.0/\0'), xmpPacket(metadata)]);
+  if (payload.length > 0xfffd) throw new Error("The metadata is too large to embed in a JPEG");
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+  let offset = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) offset += 2 + ((jpeg[4] << 8) | jpeg[5]);
+  return concat([jpeg.subarray(0, offset), segment, jpeg.subarray(offset)]);
+};
+
+const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(8 + data.length + (data.length & 1));
+  for (let i = 0; i < 4; i++) out[i] = type.charCodeAt(i);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+};
+
+const XMP_FLAG = 0x04;
+const ALPHA_FLAG = 0x10;
+
+// XMP needs the extended (VP8X) WebP layout, so simple files are converted to it.
+const embedWebpXmp = (webp: Uint8Array, metadata: EditMetadata): Uint8Array => {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const firstChunk = String.fromCharCode(...webp.subarray(12, 16));
+  let body: Uint8Array;
+  if (firstChunk === 'VP8X') {
+    body = webp.slice(12);
+    body[8] |= XMP_FLAG;
+  } else {
+    let width: number, height: number, flags = XMP_FLAG;
+    if (firstChunk === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      width = (bits & 0x3fff) + 1;
+      height = ((bits >> 14) & 0x3fff) + 1;
+      if ((bits >> 28) & 1) flags |= ALPHA_FLAG;
+    } else if (firstChunk === 'VP8 ') {
+      width = view.getUint16(26, true) & 0x3fff;
+      height = view.getUint16(28, true) & 0x3fff;
+    } else {
+      throw new Error("This WebP file has an unknown layout");
+    }
+    const header = new Uint8Array(10);
+    header[0] = flags;
+    header.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, (width - 1) >> 16], 4);
+    header.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, (height - 1) >> 16], 7);
+    body = concat([riffChunk('VP8X', header), webp.subarray(12)]);
+  }
+  const chunks = concat([new TextEncoder().encode('WEBP'), body, riffChunk('XMP ', xmpPacket(metadata))]);
+  const riffHeader = new Uint8Array(8);
+  riffHeader.set(new TextEncoder().encode('RIFF'));
+  new DataView(riffHeader.buffer).setUint32(4, chunks.length, true);
+  return concat([riffHeader, chunks]);
+};
+
+export const embedMetadata = (data: Uint8Array, format: ExportFormat, metadata: EditMetadata): Uint8Array => {
+  switch (format) {
+    case 'image/png': return embedPngText(data, metadata);
+    case 'image/jpeg': return embedJpegXmp(data, metadata);
+    case 'image/webp': return embedWebpXmp(data, metadata);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode the image")), format, quality / 100);
+});
+
+export const renderExport = async (src: string, settings: ExportSettings, metadata?: EditMetadata): Promise<Blob> => {
+  const image = await loadImage(src);
+  const width = Math.max(1, Math.round(image.naturalWidth * settings.scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * settings.scale));
+  const { canvas, ctx } = createCanvas(width, height);
+  if (settings.format === 'image/jpeg') {
+    // JPEG has no alpha; transparent areas would otherwise turn black.
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, width, height);
+  const blob = await canvasToBlob(canvas, settings.format, settings.quality);
+  // Browsers fall back to PNG for formats they can't encode.
+  const format = blob.type as ExportFormat;
+  if (!settings.embedMetadata || !metadata) return blob;
+  const data = embedMetadata(new Uint8Array(await blob.arrayBuffer()), format, metadata);
+  return new Blob([data], { type: format });
+};
@@ -0,0 +1,144 @@
+import type { SubjectSegment, SubjectTarget } from '../types';
+import type { RasterImage } from './raster';
+
+// Canvas helpers shared by the browser-side image pipeline.
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode input image."));
+    img.src = src;
+  });
+};
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create canvas context");
+  return { canvas, ctx };
+};
+
+export const toDataUrl = (mimeType: string, base64: string) => `data:${mimeType};base64,${base64}`;
+
+// Draws an image stretched to the given size and returns its RGBA pixels.
+export const getPixels = (image: CanvasImageSource, width: number, height: number): Uint8ClampedArray => {
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+// Largest size with the same aspect ratio that fits in a maxDimension square.
+// Images that already fit are left at their own size.
+export const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+    scale,
+  };
+};
+
+export const rasterToDataUrl = ({ width, height, data }: RasterImage, mimeType = 'image/png'): string => {
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(data), width, height), 0, 0);
+  return canvas.toDataURL(mimeType);
+};
+
+export const splitDataUrl = (dataUrl: string): { mimeType: string; base64: string } => {
+  const [header, base64] = dataUrl.split(',');
+  return { mimeType: header.slice('data:'.length).split(';')[0], base64 };
+};
+
+// Redraws an image at an exact size. The returned data URL may use a different
+// type than requested when the browser can't encode it (e.g. GIF becomes PNG).
+export const resizeImage = async (src: string, width: number, height: number, mimeType = 'image/png'): Promise<string> => {
+  const image = await loadImage(src);
+  if (image.naturalWidth === width && image.naturalHeight === height && src.startsWith(`data:${mimeType}`)) return src;
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, width, height);
+  return canvas.toDataURL(mimeType, 0.92);
+};
+
+// Resizes an image to the upload size and splits it into what the providers take.
+export const toUploadPayload = async (url: string, size: { width: number; height: number }, mimeType: string) => {
+  return splitDataUrl(await resizeImage(url, size.width, size.height, mimeType));
+};
+
+export interface Padding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export const hasPadding = ({ top, right, bottom, left }: Padding) => top > 0 || right > 0 || bottom > 0 || left > 0;
+
+// Places an image on a larger canvas filled with neutral grey, which is what
+// the expand prompt asks the model to paint over.
+export const padImage = async (src: string, padding: Padding, mimeType = 'image/png'): Promise<string> => {
+  const image = await loadImage(src);
+  const { canvas, ctx } = createCanvas(
+    image.naturalWidth + padding.left + padding.right,
+    image.naturalHeight + padding.top + padding.bottom
+  );
+  ctx.fillStyle = '#808080';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, padding.left, padding.top);
+  return canvas.toDataURL(mimeType);
+};
+
+// Draws each segment's mask into its box on a full-size canvas and returns a
+// one-byte-per-pixel selection mask. Model masks are soft, so they are
+// thresholded at half strength.
+export const renderSegmentMask = async (segments: SubjectSegment[], width: number, height: number): Promise<Uint8ClampedArray> => {
+  const { ctx } = createCanvas(width, height);
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalCompositeOperation = 'lighten';
+  const images = await Promise.all(segments.map(segment => loadImage(segment.maskUrl)));
+  segments.forEach(({ box }, i) => {
+    ctx.drawImage(images[i], box.left * width, box.top * height, (box.right - box.left) * width, (box.bottom - box.top) * height);
+  });
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const mask = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < mask.length; i++) mask[i] = pixels[i * 4] > 127 ? 255 : 0;
+  return mask;
+};
+
+// For a click, the smallest segment whose box holds the point; for a phrase,
+// every match.
+export const pickSubjectSegments = (segments: SubjectSegment[], target: SubjectTarget): SubjectSegment[] => {
+  if (!('point' in target)) return segments;
+  const { x, y } = target.point;
+  const hits = segments.filter(({ box }) => x >= box.left && x <= box.right && y >= box.top && y <= box.bottom);
+  if (hits.length === 0) return segments;
+  const area = ({ box }: SubjectSegment) => (box.right - box.left) * (box.bottom - box.top);
+  return [hits.reduce((best, segment) => area(segment) < area(best) ? segment : best)];
+};
+
+// True when any pixel is less than fully opaque.
+export const hasTransparency = async (src: string): Promise<boolean> => {
+  const image = await loadImage(src);
+  const pixels = getPixels(image, image.naturalWidth, image.naturalHeight);
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] < 255) return true;
+  }
+  return false;
+};
+
+// Uses a one-byte-per-pixel mask as the image's alpha channel, giving a PNG cutout.
+export const applyAlphaMask = async (src: string, mask: Uint8ClampedArray): Promise<string> => {
+  const image = await loadImage(src);
+  const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+  ctx.drawImage(image, 0, 0);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < mask.length; i++) {
+    imageData.data[i * 4 + 3] = Math.min(imageData.data[i * 4 + 3], mask[i]);
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,26 @@
+// Small wrappers around localStorage for user preferences. Stored values are
+// merged over the fallback so settings saved by older versions keep working.
+
+const STORAGE_PREFIX = 'bananaBrush.';
+
+export const loadLocalSetting = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    if (raw === null) return fallback;
+    const parsed = JSON.parse(raw);
+    if (fallback && typeof fallback === 'object' && !Array.isArray(fallback)) {
+      return { ...fallback, ...parsed };
+    }
+    return parsed as T;
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveLocalSetting = <T>(key: string, value: T) => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Could not save setting "${key}":`, error);
+  }
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { alphaToMask, combineMasks, featherMask, floodFillMask, growMask, invertMask, maskToAlpha, shrinkMask } from './mask';
+
+// A 5x5 mask with only the centre pixel selected.
+const centreDot = () => {
+  const mask = new Uint8ClampedArray(25);
+  mask[12] = 255;
+  return mask;
+};
+
+const selected = (mask: Uint8ClampedArray) => Array.from(mask, (value, index) => value ? index : -1).filter(index => index >= 0);
+
+describe('invertMask', () => {
+  it('flips every value', () => {
+    expect(Array.from(invertMask(new Uint8ClampedArray([0, 64, 255])))).toEqual([255, 191, 0]);
+  });
+});
+
+describe('growMask and shrinkMask', () => {
+  it('grows by a square of the given radius, clipped at the edges', () => {
+    expect(selected(growMask(centreDot(), 5, 5, 1))).toEqual([6, 7, 8, 11, 12, 13, 16, 17, 18]);
+    expect(selected(growMask(centreDot(), 5, 5, 3))).toHaveLength(25);
+  });
+
+  it('shrinking undoes growing away from the edges', () => {
+    expect(selected(shrinkMask(growMask(centreDot(), 5, 5, 1), 5, 5, 1))).toEqual([12]);
+  });
+
+  it('matches a brute-force min and max for any radius', () => {
+    const width = 13, height = 9;
+    const mask = Uint8ClampedArray.from({ length: width * height }, (_, i) => (i * 7919) % 251);
+    const bruteForce = (radius: number, pick: (...values: number[]) => number) => Uint8ClampedArray.from(mask, (_, i) => {
+      const x = i % width, y = Math.floor(i / width);
+      const values: number[] = [];
+      for (let sy = Math.max(0, y - radius); sy <= Math.min(height - 1, y + radius); sy++) {
+        for (let sx = Math.max(0, x - radius); sx <= Math.min(width - 1, x + radius); sx++) values.push(mask[sy * width + sx]);
+      }
+      return pick(...values);
+    });
+    for (const radius of [1, 2, 3, 5, 8, 20]) {
+      expect(growMask(mask, width, height, radius)).toEqual(bruteForce(radius, Math.max));
+      expect(shrinkMask(mask, width, height, radius)).toEqual(bruteForce(radius, Math.min));
+    }
+  });
+
+  it('returns a copy for a zero radius', () => {
+    const mask = centreDot();
+    const out = growMask(mask, 5, 5, 0);
+    expect(out).toEqual(mask);
+    expect(out).not.toBe(mask);
+  });
+});
+
+describe('featherMask', () => {
+  it('softens a hard edge without changing flat areas', () => {
+    const mask = new Uint8ClampedArray(20 * 20);
+    for (let y = 0; y < 20; y++) mask.fill(255, y * 20, y * 20 + 10);
+    const out = featherMask(mask, 20, 20, 6);
+    const row = Array.from(out.subarray(200, 220));
+    expect(row[0]).toBe(255);
+    expect(row[19]).toBe(0);
+    expect(row[9]).toBeGreaterThan(0);
+    expect(row[9]).toBeLessThan(255);
+    for (let x = 1; x < 20; x++) expect(row[x]).toBeLessThanOrEqual(row[x - 1]);
+  });
+});
+
+describe('alphaToMask and maskToAlpha', () => {
+  it('round-trips through white RGBA pixels', () => {
+    const mask = new Uint8ClampedArray([0, 128, 255]);
+    const rgba = maskToAlpha(mask);
+    expect(Array.from(rgba)).toEqual([255, 255, 255, 0, 255, 255, 255, 128, 255, 255, 255, 255]);
+    expect(alphaToMask(rgba)).toEqual(mask);
+  });
+});
+
+describe('combineMasks', () => {
+  it('adds with max and subtracts proportionally', () => {
+    const mask = new Uint8ClampedArray([0, 255, 255, 100]);
+    const region = new Uint8ClampedArray([255, 0, 255, 50]);
+    expect(Array.from(combineMasks(mask, region, 'add'))).toEqual([255, 255, 255, 100]);
+    expect(Array.from(combineMasks(mask, region, 'subtract'))).toEqual([0, 255, 0, 80]);
+  });
+});
+
+describe('floodFillMask', () => {
+  // A 4x3 image: a red block on the left, a blue one on the right and a red
+  // pixel in the top-right corner that isn't connected to the left block.
+  const RED = [255, 0, 0, 255];
+  const BLUE = [0, 0, 255, 255];
+  const pixels = new Uint8ClampedArray([
+    RED, RED, BLUE, RED,
+    RED, RED, BLUE, BLUE,
+    RED, RED, BLUE, BLUE,
+  ].flat());
+
+  it('selects only the connected region of similar colour', () => {
+    expect(selected(floodFillMask(pixels, 4, 3, 0, 0, 10))).toEqual([0, 1, 4, 5, 8, 9]);
+  });
+
+  it('does not wrap around row ends', () => {
+    expect(selected(floodFillMask(pixels, 4, 3, 3, 0, 10))).toEqual([3]);
+  });
+
+  it('takes everything when the tolerance covers all colours', () => {
+    expect(selected(floodFillMask(pixels, 4, 3, 1.7, 2.2, 255))).toHaveLength(12);
+  });
+});
@@ -0,0 +1,135 @@
+// Pure helpers for single-channel masks. A mask is stored as one byte per
+// pixel (0 = unselected, 255 = fully selected) in row-major order.
+
+export const invertMask = (mask: Uint8ClampedArray): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(mask.length);
+  for (let i = 0; i < mask.length; i++) out[i] = 255 - mask[i];
+  return out;
+};
+
+// Runs a sliding-window min or max along rows and then columns, which is the
+// same as a square structuring element of side 2 * radius + 1. Each line uses
+// the van Herk/Gil-Werman method: running values from the start and from the
+// end of fixed blocks of the window size, so any window is one `pick` of two
+// of them and the cost per pixel doesn't grow with the radius.
+const morph = (mask: Uint8ClampedArray, width: number, height: number, radius: number, pick: (a: number, b: number) => number): Uint8ClampedArray => {
+  const r = Math.max(0, Math.round(radius));
+  if (r === 0) return mask.slice();
+  const size = 2 * r + 1;
+  // Beyond the edges the line is padded with a value that never wins.
+  const identity = pick(0, 255) === 255 ? 0 : 255;
+  const longest = Math.max(width, height) + 2 * r;
+  const padded = new Uint8Array(longest);
+  const fromStart = new Uint8Array(longest);
+  const fromEnd = new Uint8Array(longest);
+  const runLine = (src: Uint8ClampedArray, dst: Uint8ClampedArray, start: number, stride: number, length: number) => {
+    const n = length + 2 * r;
+    padded.fill(identity, 0, n);
+    for (let i = 0; i < length; i++) padded[r + i] = src[start + i * stride];
+    for (let i = 0; i < n; i++) fromStart[i] = i % size === 0 ? padded[i] : pick(fromStart[i - 1], padded[i]);
+    for (let i = n - 1; i >= 0; i--) fromEnd[i] = i === n - 1 || i % size === size - 1 ? padded[i] : pick(fromEnd[i + 1], padded[i]);
+    for (let i = 0; i < length; i++) dst[start + i * stride] = pick(fromEnd[i], fromStart[i + 2 * r]);
+  };
+  const horizontal = new Uint8ClampedArray(mask.length);
+  for (let y = 0; y < height; y++) runLine(mask, horizontal, y * width, 1, width);
+  const out = new Uint8ClampedArray(mask.length);
+  for (let x = 0; x < width; x++) runLine(horizontal, out, x, width, height);
+  return out;
+};
+
+export const growMask = (mask: Uint8ClampedArray, width: number, height: number, radius: number) =>
+  morph(mask, width, height, radius, Math.max);
+
+export const shrinkMask = (mask: Uint8ClampedArray, width: number, height: number, radius: number) =>
+  morph(mask, width, height, radius, Math.min);
+
+const boxBlurPass = (src: Uint8ClampedArray, width: number, height: number, r: number): Uint8ClampedArray => {
+  const horizontal = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let x = -r; x <= r; x++) sum += src[row + Math.min(width - 1, Math.max(0, x))];
+    for (let x = 0; x < width; x++) {
+      horizontal[row + x] = sum / (2 * r + 1);
+      sum += src[row + Math.min(width - 1, x + r + 1)] - src[row + Math.max(0, x - r)];
+    }
+  }
+  const out = new Uint8ClampedArray(src.length);
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = -r; y <= r; y++) sum += horizontal[Math.min(height - 1, Math.max(0, y)) * width + x];
+    for (let y = 0; y < height; y++) {
+      out[y * width + x] = sum / (2 * r + 1);
+      sum += horizontal[Math.min(height - 1, y + r + 1) * width + x] - horizontal[Math.max(0, y - r) * width + x];
+    }
+  }
+  return out;
+};
+
+// How far a feather of `radius` spreads: three box passes of a third each.
+const featherPassRadius = (radius: number) => Math.max(0, Math.round(radius / 3));
+export const featherReach = (radius: number) => 3 * featherPassRadius(radius);
+
+// Three box blurs approximate a gaussian and give a soft, even falloff.
+export const featherMask = (mask: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+  const r = featherPassRadius(radius);
+  if (r === 0) return mask.slice();
+  let out = mask;
+  for (let pass = 0; pass < 3; pass++) out = boxBlurPass(out, width, height, r);
+  return out;
+};
+
+// Conversions between a mask and the alpha channel of RGBA pixel data.
+export const alphaToMask = (rgba: Uint8ClampedArray): Uint8ClampedArray => {
+  const mask = new Uint8ClampedArray(rgba.length / 4);
+  for (let i = 0; i < mask.length; i++) mask[i] = rgba[i * 4 + 3];
+  return mask;
+};
+
+export const maskToAlpha = (mask: Uint8ClampedArray): Uint8ClampedArray => {
+  const rgba = new Uint8ClampedArray(mask.length * 4);
+  for (let i = 0; i < mask.length; i++) {
+    rgba[i * 4] = 255;
+    rgba[i * 4 + 1] = 255;
+    rgba[i * 4 + 2] = 255;
+    rgba[i * 4 + 3] = mask[i];
+  }
+  return rgba;
+};
+
+// Adds `region` to `mask`, or removes it when subtracting. Partial values
+// (feathered edges) combine proportionally.
+export const combineMasks = (mask: Uint8ClampedArray, region: Uint8ClampedArray, operation: 'add' | 'subtract'): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(mask.length);
+  for (let i = 0; i < mask.length; i++) {
+    out[i] = operation === 'add' ? Math.max(mask[i], region[i]) : mask[i] * (255 - region[i]) / 255;
+  }
+  return out;
+};
+
+// Magic wand: the contiguous region around (startX, startY) whose colour is
+// within `tolerance` (0-255 per channel) of the clicked pixel.
+export const floodFillMask = (rgba: Uint8ClampedArray, width: number, height: number, startX: number, startY: number, tolerance: number): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(width * height);
+  const x0 = Math.min(width - 1, Math.max(0, Math.floor(startX)));
+  const y0 = Math.min(height - 1, Math.max(0, Math.floor(startY)));
+  const seed = (y0 * width + x0) * 4;
+  const [r, g, b] = [rgba[seed], rgba[seed + 1], rgba[seed + 2]];
+  const matches = (i: number) =>
+    Math.abs(rgba[i * 4] - r) <= tolerance && Math.abs(rgba[i * 4 + 1] - g) <= tolerance && Math.abs(rgba[i * 4 + 2] - b) <= tolerance;
+
+  const stack = [y0 * width + x0];
+  out[stack[0]] = 255;
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const x = i % width;
+    const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+    for (const n of neighbours) {
+      if (n >= 0 && n < out.length && !out[n] && matches(n)) {
+        out[n] = 255;
+        stack.push(n);
+      }
+    }
+  }
+  return out;
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { addRecentPrompt, exportPresetPack, extractVariables, fillVariables, importPresetPack } from './presets';
+import type { Preset } from '../types';
+
+const packFile = (contents: unknown) => new File([typeof contents === 'string' ? contents : JSON.stringify(contents)], 'pack.json');
+
+describe('extractVariables', () => {
+  it('lists trimmed names once, in order of first appearance', () => {
+    expect(extractVariables('a {colour} { object } on a {colour} {}')).toEqual(['colour', 'object']);
+  });
+});
+
+describe('fillVariables', () => {
+  it('replaces variables with their trimmed values', () => {
+    expect(fillVariables('a {colour} {object}', { colour: ' red ', object: 'hat' })).toBe('a red hat');
+  });
+
+  it('matches names with surrounding spaces', () => {
+    expect(fillVariables('a { colour } hat', { colour: 'blue' })).toBe('a blue hat');
+  });
+
+  it('leaves variables without a value as typed', () => {
+    expect(fillVariables('a {colour} {object}', { colour: '  ' })).toBe('a {colour} {object}');
+  });
+
+  it('leaves text without variables alone', () => {
+    expect(fillVariables('no variables here', { colour: 'red' })).toBe('no variables here');
+  });
+});
+
+describe('addRecentPrompt', () => {
+  it('moves a repeated prompt to the front and ignores blank ones', () => {
+    expect(addRecentPrompt(['b', 'a'], ' a ')).toEqual(['a', 'b']);
+    expect(addRecentPrompt(['a'], '   ')).toEqual(['a']);
+  });
+
+  it('keeps the ten most recent', () => {
+    const recent = Array.from({ length: 10 }, (_, i) => `p${i}`);
+    expect(addRecentPrompt(recent, 'new')).toEqual(['new', ...recent.slice(0, 9)]);
+  });
+});
+
+describe('preset packs', () => {
+  const existing: Preset[] = [{ id: '1', name: 'Sky', kind: 'prompt', text: 'a {colour} sky' }];
+
+  it('round-trips presets with fresh ids and skips ones we already have', async () => {
+    const presets: Preset[] = [...existing, { id: '2', name: 'Studio', kind: 'context', text: 'product photo' }];
+    const blob = exportPresetPack(presets);
+    const imported = await importPresetPack(new File([blob], 'pack.json'), existing);
+    expect(imported).toHaveLength(1);
+    expect(imported[0]).toMatchObject({ name: 'Studio', kind: 'context', text: 'product photo' });
+    expect(imported[0].id).not.toBe('2');
+  });
+
+  it('drops malformed entries', async () => {
+    const imported = await importPresetPack(packFile({
+      format: 'banana-brush-presets',
+      version: 1,
+      presets: [{ name: 'Ok', kind: 'prompt', text: 'fine' }, { name: 'Bad kind', kind: 'other', text: 'x' }, { name: 3, kind: 'prompt', text: 'x' }, null],
+    }), []);
+    expect(imported.map(p => p.name)).toEqual(['Ok']);
+  });
+
+  it('rejects files that are not preset packs', async () => {
+    await expect(importPresetPack(packFile('not json'), [])).rejects.toThrow('not a valid preset pack');
+    await expect(importPresetPack(packFile({ format: 'something-else', presets: [] }), [])).rejects.toThrow('not a valid preset pack');
+    await expect(importPresetPack(packFile(null), [])).rejects.toThrow('not a valid preset pack');
+  });
+
+  it('rejects packs from a newer version', async () => {
+    await expect(importPresetPack(packFile({ format: 'banana-brush-presets', version: 2, presets: [] }), [])).rejects.toThrow('newer version');
+  });
+});
@@ -0,0 +1,59 @@
+import { Preset, PresetKind } from '../types';
+
+const PACK_FORMAT = 'banana-brush-presets';
+const PACK_VERSION = 1;
+const RECENT_PROMPT_LIMIT = 10;
+
+const VARIABLE_PATTERN = /\{([^{}]+)\}/g;
+
+// Variable names in order of first appearance, e.g. "a {color} {object}" -> ['color', 'object'].
+export const extractVariables = (text: string): string[] => {
+  const names = Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1].trim());
+  return names.filter((name, index) => name && names.indexOf(name) === index);
+};
+
+// Variables without a value are left as typed so nothing is silently dropped.
+export const fillVariables = (text: string, values: Record<string, string>): string => {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name.trim()]?.trim() || placeholder);
+};
+
+export const addRecentPrompt = (recent: string[], prompt: string): string[] => {
+  const trimmed = prompt.trim();
+  if (!trimmed) return recent;
+  return [trimmed, ...recent.filter(p => p !== trimmed)].slice(0, RECENT_PROMPT_LIMIT);
+};
+
+export const createPreset = (name: string, kind: PresetKind, text: string): Preset => ({ id: crypto.randomUUID(), name, kind, text });
+
+export const exportPresetPack = (presets: Preset[]): Blob => {
+  const pack = { format: PACK_FORMAT, version: PACK_VERSION, presets: presets.map(({ name, kind, text }) => ({ name, kind, text })) };
+  return new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+};
+
+type PackedPreset = Omit<Preset, 'id'>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isPackedPreset = (value: unknown): value is PackedPreset =>
+  isRecord(value) && typeof value.name === 'string' && typeof value.text === 'string' && (value.kind === 'context' || value.kind === 'prompt');
+
+// Imported presets get fresh ids. Presets identical to one we already have are skipped.
+export const importPresetPack = async (file: File, existing: Preset[]): Promise<Preset[]> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error("This file is not a valid preset pack.");
+  }
+  if (!isRecord(parsed) || parsed.format !== PACK_FORMAT || !Array.isArray(parsed.presets)) {
+    throw new Error("This file is not a valid preset pack.");
+  }
+  if (typeof parsed.version === 'number' && parsed.version > PACK_VERSION) {
+    throw new Error("This preset pack was exported by a newer version of Banana Brush.");
+  }
+  const isDuplicate = (p: Preset) => existing.some(e => e.kind === p.kind && e.name === p.name && e.text === p.text);
+  return parsed.presets
+    .filter(isPackedPreset)
+    .map(p => createPreset(p.name, p.kind, p.text))
+    .filter(p => !isDuplicate(p));
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_IMAGE_TRANSFORM, EXPAND_FILL, buildInsertMask, compositeInsert, createRaster, insertMaskMargin, insertTransformMatrix, padRaster, resizeRaster } from './raster';
+import type { AffineMatrix, RasterImage } from './raster';
+
+const IDENTITY: AffineMatrix = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+const pixel = ({ width, data }: RasterImage, x: number, y: number) => Array.from(data.subarray((y * width + x) * 4, (y * width + x + 1) * 4));
+
+const fromPixels = (width: number, height: number, pixels: number[][]): RasterImage => ({ width, height, data: new Uint8ClampedArray(pixels.flat()) });
+
+describe('createRaster', () => {
+  it('is transparent black unless given a fill', () => {
+    expect(Array.from(createRaster(2, 1).data)).toEqual([0, 0, 0, 0, 0, 0, 0, 0]);
+    expect(Array.from(createRaster(2, 1, [1, 2, 3, 4]).data)).toEqual([1, 2, 3, 4, 1, 2, 3, 4]);
+  });
+});
+
+describe('padRaster', () => {
+  it('places the image on a grey canvas', () => {
+    const image = createRaster(2, 1, [255, 0, 0, 255]);
+    const padded = padRaster(image, { top: 1, right: 0, bottom: 2, left: 3 });
+    expect([padded.width, padded.height]).toEqual([5, 4]);
+    expect(pixel(padded, 3, 1)).toEqual([255, 0, 0, 255]);
+    expect(pixel(padded, 4, 1)).toEqual([255, 0, 0, 255]);
+    expect(pixel(padded, 2, 1)).toEqual(EXPAND_FILL);
+    expect(pixel(padded, 3, 0)).toEqual(EXPAND_FILL);
+    expect(pixel(padded, 4, 3)).toEqual(EXPAND_FILL);
+  });
+});
+
+describe('resizeRaster', () => {
+  it('returns the same image at the same size', () => {
+    const image = createRaster(3, 3);
+    expect(resizeRaster(image, 3, 3)).toBe(image);
+  });
+
+  it('averages blocks when shrinking', () => {
+    const image = fromPixels(2, 2, [[0, 0, 0, 255], [100, 0, 0, 255], [200, 0, 0, 255], [100, 40, 0, 255]]);
+    expect(pixel(resizeRaster(image, 1, 1), 0, 0)).toEqual([100, 10, 0, 255]);
+  });
+
+  it('interpolates when enlarging', () => {
+    const image = fromPixels(2, 1, [[0, 0, 0, 255], [200, 0, 0, 255]]);
+    const resized = resizeRaster(image, 4, 1);
+    expect([0, 1, 2, 3].map(x => pixel(resized, x, 0)[0])).toEqual([0, 50, 150, 200]);
+  });
+});
+
+describe('insertTransformMatrix', () => {
+  it('centres the insert at half size by default', () => {
+    const matrix = insertTransformMatrix(DEFAULT_IMAGE_TRANSFORM, 200, 100, 80, 40);
+    expect(matrix.a).toBeCloseTo(0.5);
+    expect(matrix.d).toBeCloseTo(0.5);
+    expect(matrix.b).toBeCloseTo(0);
+    expect(matrix.c).toBeCloseTo(0);
+    // The insert's centre lands on the canvas centre.
+    expect(matrix.a * 40 + matrix.c * 20 + matrix.e).toBeCloseTo(100);
+    expect(matrix.b * 40 + matrix.d * 20 + matrix.f).toBeCloseTo(50);
+  });
+
+  it('rotates about the insert centre', () => {
+    const matrix = insertTransformMatrix({ ...DEFAULT_IMAGE_TRANSFORM, scale: 100, rotation: 90 }, 100, 100, 20, 10);
+    expect(matrix.a).toBeCloseTo(0);
+    expect(matrix.b).toBeCloseTo(1);
+    expect(matrix.c).toBeCloseTo(-1);
+    expect(matrix.d).toBeCloseTo(0);
+    expect(matrix.a * 10 + matrix.c * 5 + matrix.e).toBeCloseTo(50);
+    expect(matrix.b * 10 + matrix.d * 5 + matrix.f).toBeCloseTo(50);
+  });
+});
+
+describe('compositeInsert', () => {
+  const base = createRaster(3, 1, [0, 0, 255, 255]);
+
+  it('draws the insert where it lands and leaves the rest alone', () => {
+    const insert = createRaster(1, 1, [255, 0, 0, 255]);
+    const out = compositeInsert(base, insert, { ...IDENTITY, e: 1 }, 1);
+    expect(pixel(out, 0, 0)).toEqual([0, 0, 255, 255]);
+    expect(pixel(out, 1, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixel(out, 2, 0)).toEqual([0, 0, 255, 255]);
+    expect(base.data[4]).toBe(0);
+  });
+
+  it('blends by opacity and the insert alpha', () => {
+    const insert = createRaster(3, 1, [255, 0, 0, 128]);
+    const out = compositeInsert(base, insert, IDENTITY, 1);
+    expect(pixel(out, 0, 0)).toEqual([128, 0, 127, 255]);
+    expect(pixel(compositeInsert(base, createRaster(3, 1, [255, 0, 0, 255]), IDENTITY, 0.25), 0, 0)).toEqual([64, 0, 191, 255]);
+  });
+
+  it('ignores transforms that collapse the insert', () => {
+    const out = compositeInsert(base, createRaster(1, 1, [255, 0, 0, 255]), { ...IDENTITY, a: 0 }, 1);
+    expect(out.data).toEqual(base.data);
+  });
+});
+
+describe('buildInsertMask', () => {
+  it('covers the insert plus a margin, in opaque greyscale', () => {
+    const insert = createRaster(1, 1, [255, 255, 255, 255]);
+    const mask = buildInsertMask(20, 20, [{ insert, matrix: { ...IDENTITY, e: 10, f: 10 } }]);
+    const margin = insertMaskMargin(20, 20);
+    expect(margin).toBe(2);
+    expect(pixel(mask, 10, 10)).toEqual([255, 255, 255, 255]);
+    expect(pixel(mask, 12, 8)).toEqual([255, 255, 255, 255]);
+    expect(pixel(mask, 13, 10)).toEqual([0, 0, 0, 255]);
+    expect(pixel(mask, 0, 0)).toEqual([0, 0, 0, 255]);
+  });
+});
@@ -0,0 +1,190 @@
+import type { ImageTransform } from '../types';
+import type { Padding } from './image';
+import { growMask } from './mask';
+
+// Pixel-level builders that don't need a DOM, so the headless API can build the
+// same composites and masks as the browser.
+
+// Straight (non-premultiplied) RGBA pixels.
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// A 2D affine transform in canvas order: x' = a*x + c*y + e, y' = b*x + d*y + f.
+export interface AffineMatrix {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+// The neutral grey the expand prompt asks the model to paint over.
+export const EXPAND_FILL: [number, number, number, number] = [128, 128, 128, 255];
+
+export const createRaster = (width: number, height: number, fill?: [number, number, number, number]): RasterImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  if (fill) {
+    for (let i = 0; i < data.length; i += 4) data.set(fill, i);
+  }
+  return { width, height, data };
+};
+
+// Where a newly inserted image starts: centred at half size.
+export const DEFAULT_IMAGE_TRANSFORM: ImageTransform = {
+  x: 50, y: 50, scale: 50, rotation: 0, opacity: 100,
+  perspective: 1000, rotateX: 0, rotateY: 0,
+};
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Where an insert of insertWidth x insertHeight lands on a canvasWidth x
+// canvasHeight image. Matches translate -> rotate(x, y, z) -> scale -> centre
+// with DOMMatrix; a 2D canvas only keeps the 2D part of the 3D rotation.
+export const insertTransformMatrix = (
+  { x, y, scale, rotation, rotateX, rotateY }: ImageTransform,
+  canvasWidth: number,
+  canvasHeight: number,
+  insertWidth: number,
+  insertHeight: number
+): AffineMatrix => {
+  const [cx, sx] = [Math.cos(toRadians(rotateX)), Math.sin(toRadians(rotateX))];
+  const [cy, sy] = [Math.cos(toRadians(rotateY)), Math.sin(toRadians(rotateY))];
+  const [cz, sz] = [Math.cos(toRadians(rotation)), Math.sin(toRadians(rotation))];
+  const s = scale / 100;
+  const a = s * cz * cy;
+  const b = s * sz * cy;
+  const c = s * (cz * sy * sx - sz * cx);
+  const d = s * (sz * sy * sx + cz * cx);
+  return {
+    a, b, c, d,
+    e: (x / 100) * canvasWidth - (a * insertWidth + c * insertHeight) / 2,
+    f: (y / 100) * canvasHeight - (b * insertWidth + d * insertHeight) / 2,
+  };
+};
+
+const invertMatrix = ({ a, b, c, d, e, f }: AffineMatrix): AffineMatrix | null => {
+  const det = a * d - b * c;
+  if (Math.abs(det) < 1e-9) return null;
+  return {
+    a: d / det, b: -b / det, c: -c / det, d: a / det,
+    e: (c * f - d * e) / det,
+    f: (b * e - a * f) / det,
+  };
+};
+
+// Bilinear sample at a pixel-centre coordinate, written into out[0..3].
+const sampleBilinear = (image: RasterImage, x: number, y: number, out: Float32Array) => {
+  const fx = Math.min(Math.max(x - 0.5, 0), image.width - 1);
+  const fy = Math.min(Math.max(y - 0.5, 0), image.height - 1);
+  const x0 = Math.floor(fx), y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, image.width - 1), y1 = Math.min(y0 + 1, image.height - 1);
+  const tx = fx - x0, ty = fy - y0;
+  const { data, width } = image;
+  for (let ch = 0; ch < 4; ch++) {
+    const top = data[(y0 * width + x0) * 4 + ch] * (1 - tx) + data[(y0 * width + x1) * 4 + ch] * tx;
+    const bottom = data[(y1 * width + x0) * 4 + ch] * (1 - tx) + data[(y1 * width + x1) * 4 + ch] * tx;
+    out[ch] = top * (1 - ty) + bottom * ty;
+  }
+};
+
+// Bilinear when enlarging, box-averaged when shrinking so downscales don't alias.
+export const resizeRaster = (image: RasterImage, width: number, height: number): RasterImage => {
+  if (image.width === width && image.height === height) return image;
+  const out = createRaster(width, height);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+  const sample = new Float32Array(4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4;
+      if (scaleX <= 1 && scaleY <= 1) {
+        sampleBilinear(image, (x + 0.5) * scaleX, (y + 0.5) * scaleY, sample);
+        out.data.set(sample, index);
+        continue;
+      }
+      const x0 = Math.floor(x * scaleX), x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX));
+      const y0 = Math.floor(y * scaleY), y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY));
+      sample.fill(0);
+      for (let sy = y0; sy < Math.min(y1, image.height); sy++) {
+        for (let sx = x0; sx < Math.min(x1, image.width); sx++) {
+          const source = (sy * image.width + sx) * 4;
+          for (let ch = 0; ch < 4; ch++) sample[ch] += image.data[source + ch];
+        }
+      }
+      const count = (Math.min(y1, image.height) - y0) * (Math.min(x1, image.width) - x0);
+      for (let ch = 0; ch < 4; ch++) out.data[index + ch] = sample[ch] / count;
+    }
+  }
+  return out;
+};
+
+// The expand composite: the image on a larger grey canvas.
+export const padRaster = (image: RasterImage, { top, right, bottom, left }: Padding, fill = EXPAND_FILL): RasterImage => {
+  const out = createRaster(image.width + left + right, image.height + top + bottom, fill);
+  for (let y = 0; y < image.height; y++) {
+    const row = image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4);
+    out.data.set(row, ((y + top) * out.width + left) * 4);
+  }
+  return out;
+};
+
+// The insert composite: `insert` drawn over `base` with the given placement.
+export const compositeInsert = (base: RasterImage, insert: RasterImage, matrix: AffineMatrix, opacity: number): RasterImage => {
+  const out = { width: base.width, height: base.height, data: new Uint8ClampedArray(base.data) };
+  const inverse = invertMatrix(matrix);
+  if (!inverse) return out;
+  const sample = new Float32Array(4);
+  for (let y = 0; y < base.height; y++) {
+    for (let x = 0; x < base.width; x++) {
+      const u = inverse.a * (x + 0.5) + inverse.c * (y + 0.5) + inverse.e;
+      const v = inverse.b * (x + 0.5) + inverse.d * (y + 0.5) + inverse.f;
+      if (u < 0 || v < 0 || u >= insert.width || v >= insert.height) continue;
+      sampleBilinear(insert, u, v, sample);
+      const alpha = (sample[3] / 255) * opacity;
+      const index = (y * base.width + x) * 4;
+      for (let ch = 0; ch < 3; ch++) out.data[index + ch] = out.data[index + ch] * (1 - alpha) + sample[ch] * alpha;
+      out.data[index + 3] = Math.max(out.data[index + 3], alpha * 255);
+    }
+  }
+  return out;
+};
+
+// The insert mask follows the insert's alpha channel, grown by a small margin
+// so the model has room to blend edges and cast shadows.
+const INSERT_MASK_MARGIN = 0.005;
+
+export const insertMaskMargin = (width: number, height: number) => Math.max(2, Math.round(Math.max(width, height) * INSERT_MASK_MARGIN));
+
+export interface InsertPlacement {
+  insert: RasterImage;
+  matrix: AffineMatrix;
+}
+
+// The insert mask: white where any insert's opaque pixels land, fading with
+// their alpha, and black elsewhere.
+export const buildInsertMask = (width: number, height: number, placements: InsertPlacement[]): RasterImage => {
+  const coverage = new Uint8ClampedArray(width * height);
+  const sample = new Float32Array(4);
+  for (const { insert, matrix } of placements) {
+    const inverse = invertMatrix(matrix);
+    if (!inverse) continue;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const u = inverse.a * (x + 0.5) + inverse.c * (y + 0.5) + inverse.e;
+        const v = inverse.b * (x + 0.5) + inverse.d * (y + 0.5) + inverse.f;
+        if (u < 0 || v < 0 || u >= insert.width || v >= insert.height) continue;
+        sampleBilinear(insert, u, v, sample);
+        const index = y * width + x;
+        coverage[index] = Math.max(coverage[index], sample[3]);
+      }
+    }
+  }
+  const grown = growMask(coverage, width, height, insertMaskMargin(width, height));
+  const out = createRaster(width, height);
+  for (let i = 0; i < grown.length; i++) out.data.set([grown[i], grown[i], grown[i], 255], i * 4);
+  return out;
+};
@@ -0,0 +1,18 @@
+// The combining pass of the unsharp mask in utils/adjust.ts. It touches every
+// channel of every pixel, which is too slow for the main thread on full-size photos.
+
+interface SharpenRequest {
+  pixels: Uint8ClampedArray;
+  blurred: Uint8ClampedArray;
+  amount: number;
+}
+
+self.onmessage = (e: MessageEvent<SharpenRequest>) => {
+  const { pixels, blurred, amount } = e.data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i] = pixels[i] + (pixels[i] - blurred[i]) * amount;
+    pixels[i + 1] = pixels[i + 1] + (pixels[i + 1] - blurred[i + 1]) * amount;
+    pixels[i + 2] = pixels[i + 2] + (pixels[i + 2] - blurred[i + 2]) * amount;
+  }
+  self.postMessage(pixels, { transfer: [pixels.buffer] });
+};
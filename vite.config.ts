@@ -1,12 +1,17 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, command, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // Users enter their own key in Settings. The .env key is only a convenience
+    // for the dev server and is never baked into a build.
+    const devApiKey = command === 'serve' ? env.GEMINI_API_KEY : undefined;
     return {
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The CLI (an SSR build) reads the real environment at run time.
+      define: isSsrBuild ? {} : {
+        'process.env.API_KEY': JSON.stringify(devApiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(devApiKey),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER)
       },
       resolve: {
         alias: {